@@ -0,0 +1,438 @@
+import { IContainer, IInjectable, InjectionToken, IProvider } from "../interfaces";
+import { Model } from "./Model";
+
+/**
+ * The <code>Container</code> class for PureMVC.
+ *
+ * A multiton <code>IContainer</code> implementation.
+ *
+ * The <code>Container</code> assumes these responsibilities:
+ * <UL>
+ * <LI>Maintain the providers of the dependencies of a core.
+ * <LI>Create and cache their values according to their <code>Lifetime</code>.
+ * <LI>Instantiate classes with the dependencies they declare through the static
+ * <code>inject</code> and <code>injectProperties</code> properties.
+ * <LI>Resolve the <code>IProxy</code>s registered with the <code>Model</code> of the core by
+ * name, or by class when the class has a static <code>NAME</code>.
+ *
+ * The multiton instance is the root scope of the core, its <code>scoped</code> values live
+ * as long as the core. Child scopes are created with <code>createScope</code>.
+ */
+export class Container
+	implements IContainer
+{
+	/**
+	 * The providers registered with the root scope.
+	 *
+	 * @protected
+	 */
+	protected providers:Map<InjectionToken, IProvider>;
+
+	/**
+	 * The providers replacing registered ones, most recent last.
+	 *
+	 * @protected
+	 */
+	protected overrides:Map<InjectionToken, IProvider[]>;
+
+	/**
+	 * The values created for the providers, <code>singleton</code> ones in the root scope,
+	 * <code>scoped</code> ones in the scope they were resolved in.
+	 *
+	 * @protected
+	 */
+	protected values:Map<IProvider, unknown>;
+
+	/**
+	 * The scope this one was created from, none for the root scope.
+	 *
+	 * @protected
+	 */
+	protected parent?:Container;
+
+	/**
+	 * The tokens being resolved, to detect circular dependencies.
+	 *
+	 * @protected
+	 */
+	protected resolving:Set<InjectionToken>;
+
+	/**
+	 * The multiton key for this core.
+	 *
+	 * @protected
+	 */
+	protected multitonKey:string;
+
+	/**
+	 * This <code>IContainer</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton factory method
+	 * <code>Container.getInstance( key )</code>.
+	 *
+	 * @param key
+	 *		Multiton key for this instance of <code>Container</code>.
+	 *
+	 * @param parent
+	 * 		The scope this one is created from, only given by <code>createScope</code>.
+	 *
+	 * @throws Error
+	 * 		Throws an error if an instance for this multiton key has already been constructed.
+	 */
+	constructor( key:string, parent?:Container )
+	{
+		if (!parent)
+		{
+			if (Container.instanceMap.has(key))
+				throw Error( Container.MULTITON_MSG );
+
+			Container.instanceMap.set(key, this);
+		}
+
+		this.multitonKey = key;
+		this.parent = parent;
+		this.providers = parent ? parent.providers : new Map();
+		this.overrides = parent ? parent.overrides : new Map();
+		this.resolving = parent ? parent.resolving : new Set();
+		this.values = new Map();
+
+		if (!parent)
+			this.initializeContainer();
+	}
+
+	/**
+	 * Initialize the multiton <code>Container</code> instance.
+	 *
+	 * Called automatically by the constructor. This is the opportunity to register the
+	 * providers of the core in a subclass without overriding the constructor.
+	 *
+	 * @protected
+	 */
+	protected initializeContainer():void
+	{
+
+	}
+
+	/**
+	 * Register the provider of a dependency, replacing any previous one.
+	 *
+	 * @param token
+	 * 		The token the dependency is resolved by.
+	 *
+	 * @param provider
+	 * 		How the value of the dependency is created.
+	 */
+	public register<ValueType>( token:InjectionToken<ValueType>, provider:IProvider<ValueType> ):void
+	{
+		this.providers.set(token, provider);
+	}
+
+	/**
+	 * Check if a dependency can be resolved.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		A provider or a registered <code>IProxy</code> matches the token.
+	 */
+	public has( token:InjectionToken ):boolean
+	{
+		return this.getProvider(token) !== undefined || this.getProxyName(token) !== undefined;
+	}
+
+	/**
+	 * Get the value of a dependency.
+	 *
+	 * Providers take precedence over the <code>IProxy</code>s registered with the
+	 * <code>Model</code>.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		The value, created according to the lifetime of its provider.
+	 *
+	 * @throws Error
+	 * 		If nothing matches the token, or the dependencies are circular.
+	 */
+	public resolve<ValueType>( token:InjectionToken<ValueType> ):ValueType
+	{
+		const provider = this.getProvider(token);
+
+		if (!provider)
+		{
+			const proxyName = this.getProxyName(token);
+
+			if (proxyName === undefined)
+				throw Error( `${Container.RESOLVE_MSG} ${Container.describe(token)}` );
+
+			return Model.getInstance(this.multitonKey).retrieveProxy(proxyName) as ValueType;
+		}
+
+		const lifetime = provider.lifetime ?? "singleton";
+
+		if (lifetime === "transient")
+			return this.create(token, provider);
+
+		const scope = lifetime === "singleton" ? this.getRoot() : this;
+
+		if (!scope.values.has(provider))
+			scope.values.set(provider, scope.create(token, provider));
+
+		return scope.values.get(provider) as ValueType;
+	}
+
+	/**
+	 * Create an instance of a class, its declared dependencies injected.
+	 *
+	 * @param type
+	 * 		The class, optionally declaring <code>IInjectable</code> static properties.
+	 *
+	 * @return
+	 * 		The new instance.
+	 */
+	public instantiate<ValueType>( type:new (...args:any[]) => ValueType ):ValueType
+	{
+		const dependencies = ((type as IInjectable).inject ?? []).map((token) => this.resolve(token));
+		const instance = new type(...dependencies);
+
+		this.injectProperties(instance as object);
+
+		return instance;
+	}
+
+	/**
+	 * Assign the dependencies declared by <code>injectProperties</code> on the class of an
+	 * existing instance.
+	 *
+	 * @param instance
+	 * 		The instance to fill.
+	 */
+	public injectProperties( instance:object ):void
+	{
+		const properties = (instance.constructor as IInjectable).injectProperties ?? {};
+
+		for (const property of Object.keys(properties))
+			(instance as Record<string, unknown>)[property] = this.resolve(properties[property]);
+	}
+
+	/**
+	 * Replace the provider of a dependency until the returned function is called, typically in
+	 * tests. Values cached for the replaced provider are kept for when it is restored.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @param provider
+	 * 		The provider to use instead.
+	 *
+	 * @return
+	 * 		A function restoring the previous provider.
+	 */
+	public override<ValueType>( token:InjectionToken<ValueType>, provider:IProvider<ValueType> ):() => void
+	{
+		const overrides = this.overrides.get(token) ?? [];
+
+		overrides.push(provider);
+		this.overrides.set(token, overrides);
+
+		return () =>
+		{
+			const index = overrides.lastIndexOf(provider);
+
+			if (index >= 0)
+				overrides.splice(index, 1);
+
+			if (overrides.length === 0 && this.overrides.get(token) === overrides)
+				this.overrides.delete(token);
+		};
+	}
+
+	/**
+	 * Create a child scope, sharing the providers and singletons of this container but
+	 * keeping its own <code>scoped</code> values.
+	 *
+	 * @return
+	 * 		The new scope.
+	 */
+	public createScope():IContainer
+	{
+		return new Container(this.multitonKey, this);
+	}
+
+	/**
+	 * Get the provider in effect for a token, the latest override if any.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		The provider, if one is registered.
+	 *
+	 * @protected
+	 */
+	protected getProvider( token:InjectionToken ):IProvider | undefined
+	{
+		const overrides = this.overrides.get(token);
+
+		return overrides?.[overrides.length - 1] ?? this.providers.get(token);
+	}
+
+	/**
+	 * Get the name of the registered <code>IProxy</code> matching a token: the token itself
+	 * for a string, the static <code>NAME</code> for a class whose instance is registered under
+	 * it.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		The name of the <code>IProxy</code>, if one matches.
+	 *
+	 * @protected
+	 */
+	protected getProxyName( token:InjectionToken ):string | undefined
+	{
+		const model = Model.instanceMap.get(this.multitonKey);
+
+		if (!model)
+			return undefined;
+
+		if (typeof token === "string")
+			return model.hasProxy(token) ? token : undefined;
+
+		const name = typeof token === "function" ? (token as { NAME?:unknown }).NAME : undefined;
+
+		if (typeof name === "string" && model.retrieveProxy(name) instanceof (token as Function))
+			return name;
+
+		return undefined;
+	}
+
+	/**
+	 * Create the value of a provider.
+	 *
+	 * @param token
+	 * 		The token being resolved.
+	 *
+	 * @param provider
+	 * 		The provider of the value.
+	 *
+	 * @return
+	 * 		The new value.
+	 *
+	 * @throws Error
+	 * 		If the token is already being resolved.
+	 *
+	 * @protected
+	 */
+	protected create<ValueType>( token:InjectionToken<ValueType>, provider:IProvider<ValueType> ):ValueType
+	{
+		if ("useValue" in provider)
+			return provider.useValue;
+
+		if (this.resolving.has(token))
+			throw Error( `${Container.CIRCULAR_MSG} ${Container.describe(token)}` );
+
+		this.resolving.add(token);
+
+		try
+		{
+			if (provider.useFactory)
+				return provider.useFactory(this);
+
+			return this.instantiate(provider.useClass);
+		}
+		finally
+		{
+			this.resolving.delete(token);
+		}
+	}
+
+	/**
+	 * Get the root scope, the multiton instance.
+	 *
+	 * @return
+	 * 		The root scope.
+	 *
+	 * @protected
+	 */
+	protected getRoot():Container
+	{
+		return this.parent ? this.parent.getRoot() : this;
+	}
+
+	/**
+	 * Describe a token in error messages.
+	 *
+	 * @param token
+	 * 		The token to describe.
+	 *
+	 * @return
+	 * 		The name of the token.
+	 */
+	private static describe( token:InjectionToken ):string
+	{
+		return typeof token === "function" ? token.name : String(token);
+	}
+
+	/**
+	 * Error message used to indicate that a <code>Container</code> singleton instance is
+	 * already constructed for this multiton key.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static MULTITON_MSG:string = "Container instance for this multiton key already constructed!";
+
+	/**
+	 * Error message used to indicate that nothing matches a token.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static RESOLVE_MSG:string = "No provider or proxy registered for";
+
+	/**
+	 * Error message used to indicate that dependencies are circular.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static CIRCULAR_MSG:string = "Circular dependency while resolving";
+
+	/**
+	 * <code>Container</code> singleton instance map.
+	 *
+	 * @protected
+	 */
+	static instanceMap:Map<string, Container> = new Map();
+
+	/**
+	 * <code>Container</code> multiton factory method.
+	 *
+	 * @param key
+	 *		The multiton key of the instance of <code>Container</code> to create or retrieve.
+	 *
+	 * @return
+	 * 		The singleton instance of the <code>Container</code>.
+	 */
+	static getInstance( key:string ):IContainer
+	{
+		if (!Container.instanceMap.has(key))
+			Container.instanceMap.set(key, new Container(key));
+
+		return Container.instanceMap.get(key);
+	}
+
+	/**
+	 * Remove a <code>Container</code> instance.
+	 *
+	 * @param key
+	 *		Multiton key identifier for the <code>Container</code> instance to remove.
+	 */
+	static removeContainer( key:string ):void
+	{
+		Container.instanceMap.delete(key);
+	}
+}
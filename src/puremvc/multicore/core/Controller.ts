@@ -1,7 +1,40 @@
-import { CommandConstructor, ICommand, IController, INotification, IView } from "../interfaces";
-import { Observer } from "../patterns/observer";
+import { CommandConstructor, CommandExecutionMode, CommandLoader, DefaultNotificationMap, IClock, ICommand, ICommandConcurrency, ICommandFailure, ICommandInterceptor, ICommandInvocation, ICommandLoadFailure, ICommandPolicy, ICommandQueueStatus, ICommandRegistration, IContainer, IController, INotification, IObserver, IRetryPolicy, IView, NotificationOf, NotificationSubscription, RandomSource, SubscribedName } from "../interfaces";
+import { RateLimiter, SystemClock } from "../patterns/clock";
+import { CommandTimeoutError } from "../patterns/command/CommandTimeoutError";
+import { LinkedAbortController, Notification, NotificationAbortError, Observer } from "../patterns/observer";
+import { Container } from "./Container";
 import { View } from "./View";
 
+/**
+ * The queue of the <code>INotification</code>s with the same name and key.
+ */
+interface CommandQueue
+{
+	running:number;
+	waiting:number;
+	tail:Promise<void>;
+	latest?:INotification;
+	current?:AbortController;
+}
+
+/**
+ * A call of a rate limited registration.
+ */
+interface CommandCall
+{
+	notification:INotification;
+	container:IContainer;
+	signal?:AbortSignal;
+}
+
+/**
+ * The outcome of a registration that ran, not left to a trailing run by its rate limit.
+ */
+interface CommandOutcome
+{
+	result:unknown;
+}
+
 /**
  * The <code>Controller</code> class for PureMVC.
  *
@@ -24,9 +57,22 @@ import { View } from "./View";
  *
  * The simplest way is to subclass </code>Facade</code>, and use its
  * <code>initializeController</code> method to add your registrations.
+ *
+ * Any number of <code>ICommand</code>s may be registered for the same
+ * <code>INotification</code> name. They are executed in registration order, either
+ * sequentially (the default) or in parallel, see <code>setExecutionMode</code>.
+ *
+ * Successive <code>INotification</code>s with the same name are handled concurrently unless
+ * queued otherwise, see <code>setConcurrency</code>.
+ *
+ * Every <code>ICommand</code> execution goes through the <code>ICommandInterceptor</code>s
+ * added with <code>addCommandInterceptor</code>.
+ *
+ * The optional <code>MapType</code> notification map restricts the names commands may be
+ * registered for and the notifications they receive.
  */
-export class Controller
-	implements IController
+export class Controller<MapType = DefaultNotificationMap>
+	implements IController<MapType>
 {
 	/**
 	 * Local reference to the <code>View</code> singleton.
@@ -36,11 +82,109 @@ export class Controller
 	protected view?:IView;
 
 	/**
-	 * Mapping of <code>Notification<code> names to <code>Command</code> constructors references.
+	 * Mapping of <code>Notification<code> names to the list of <code>Command</code>
+	 * registrations, in registration order.
 	 *
 	 * @protected
 	 */		
-	protected commandMap:Map<string, CommandConstructor>;
+	protected commandMap:Map<string, ICommandRegistration[]>;
+
+	/**
+	 * Mapping of <code>Notification<code> names to the execution mode of their
+	 * <code>Command</code>s, when not the default one.
+	 *
+	 * @protected
+	 */
+	protected executionModeMap:Map<string, CommandExecutionMode>;
+
+	/**
+	 * Mapping of <code>Notification<code> names to their concurrency settings, when not the
+	 * default ones.
+	 *
+	 * @protected
+	 */
+	protected concurrencyMap:Map<string, ICommandConcurrency>;
+
+	/**
+	 * Mapping of <code>Notification<code> names to the priority of the <code>Observer</code>
+	 * of their <code>Command</code>s, when not the default one.
+	 *
+	 * @protected
+	 */
+	protected priorityMap:Map<string, number>;
+
+	/**
+	 * The queues of the <code>Notification<code>s being handled or waiting, by name then key.
+	 *
+	 * @protected
+	 */
+	protected queues:Map<string, Map<string, CommandQueue>>;
+
+	/**
+	 * The <code>ICommandInterceptor</code>s wrapping every <code>Command</code> execution,
+	 * outermost first.
+	 *
+	 * @protected
+	 */
+	protected interceptors:ICommandInterceptor[];
+
+	/**
+	 * The <code>IClock</code> timing the command timeouts and retries.
+	 *
+	 * @protected
+	 */
+	protected clock:IClock;
+
+	/**
+	 * The <code>RandomSource</code> of the jitter of the command retries.
+	 *
+	 * @protected
+	 */
+	protected random:RandomSource;
+
+	/**
+	 * The constructors loaded by the <code>CommandLoader</code>s of lazy registrations.
+	 *
+	 * @protected
+	 */
+	protected loadedCommands:Map<CommandLoader, CommandConstructor>;
+
+	/**
+	 * The loads in progress, shared by the notifications waiting for them.
+	 *
+	 * @protected
+	 */
+	protected pendingLoads:Map<CommandLoader, Promise<CommandConstructor>>;
+
+	/**
+	 * The <code>RateLimiter</code>s of the registrations with a rate limit.
+	 *
+	 * @protected
+	 */
+	protected rateLimiters:Map<ICommandRegistration, RateLimiter<CommandCall>>;
+
+	/**
+	 * The <code>IContainer</code> creating the <code>ICommand</code>s of this core.
+	 *
+	 * @protected
+	 */
+	protected container:IContainer;
+
+	/**
+	 * The value the <code>ICommand</code>s of each handled <code>INotification</code> resolved
+	 * with.
+	 *
+	 * @protected
+	 */
+	protected commandResults:WeakMap<INotification, unknown>;
+
+	/**
+	 * The first error thrown by the <code>Command</code>s handling a
+	 * <code>Notification</code>.
+	 *
+	 * @protected
+	 */
+	protected commandFailures:WeakMap<INotification, unknown>;
 
 	/**
 	 * The multiton Key for this Core.
@@ -67,10 +211,23 @@ export class Controller
 		if (Controller.instanceMap.has(key))
 			throw Error( Controller.MULTITON_MSG );
 
-		Controller.instanceMap.set(key, this);
+		Controller.instanceMap.set(key, this as IController<any>);
 
 		this.multitonKey = key;
 		this.commandMap = new Map();
+		this.executionModeMap = new Map();
+		this.concurrencyMap = new Map();
+		this.priorityMap = new Map();
+		this.queues = new Map();
+		this.interceptors = [];
+		this.clock = new SystemClock();
+		this.random = Math.random;
+		this.loadedCommands = new Map();
+		this.pendingLoads = new Map();
+		this.rateLimiters = new Map();
+		this.container = Container.getInstance(key);
+		this.commandResults = new WeakMap();
+		this.commandFailures = new WeakMap();
 		this.initializeController();
 	}
 
@@ -99,131 +256,1168 @@ export class Controller
 	}
 
 	/**
-	 * If an <code>ICommand</code> has previously been registered to handle the given
-	 * <code>INotification</code>, then it is executed.
-	 * 
+	 * If <code>ICommand</code>s have previously been registered to handle the given
+	 * <code>INotification</code>, then they are executed.
+	 *
+	 * The <code>INotification</code> is first scheduled in its queue according to the
+	 * concurrency settings of its name. A dropped <code>INotification</code>, or one replaced
+	 * by a later one, resolves without result. Nothing is executed for an
+	 * <code>INotification</code> cancelled with <code>preventDefault</code>.
+	 *
 	 * @param notification
-	 * 		The <code>INotification</code> the command will receive as parameter.
+	 * 		The <code>INotification</code> the commands will receive as parameter.
+	 *
+	 * @param subscription
+	 * 		The name or <code>NotificationPattern</code> the commands are registered for, the
+	 * 		name of the <code>INotification</code> by default.
 	 */
-	public async executeCommand( notification:INotification ): Promise<void>
+	public async executeCommand( notification:INotification, subscription:string = notification.getName() ): Promise<void>
 	{
-		/*
-			* Typed any here instead of <code>Function</code> ( won't compile if set to Function
-			* because today the compiler consider that <code>Function</code> is not newable and
-			* doesn't have a <code>Class</code> type)
-			*/
-		const commandClass = this.commandMap.get(notification.getName());
+		if (!this.commandMap.has(subscription) || notification.isDefaultPrevented())
+			return;
+
+		const { mode, key } = this.concurrencyMap.get(subscription) ?? { mode: "parallel" };
+		const queueKey = key?.(notification) ?? "";
+		const queue = this.getQueue(subscription, queueKey);
+
+		if (mode === "drop" && queue.running > 0)
+			return;
+
+		if (mode === "replace")
+		{
+			queue.latest = notification;
+			queue.current?.abort(Error( Controller.REPLACED_MSG ));
+		}
+
+		const ordered = mode === "serial" || mode === "replace";
+		const previous = queue.tail;
+		let release:() => void;
+
+		if (ordered)
+		{
+			queue.tail = new Promise<void>((resolve) => release = resolve);
+			queue.waiting++;
+			await previous;
+			queue.waiting--;
+		}
+
+		try
+		{
+			if (mode === "replace" && queue.latest !== notification)
+				return;
+
+			queue.running++;
 
-		if (commandClass)
+			try
+			{
+				if (mode === "replace")
+					await this.executeReplaceable(notification, queue, subscription);
+				else
+					await this.executeCommands(notification, subscription);
+			}
+			finally
+			{
+				queue.running--;
+			}
+		}
+		finally
 		{
-			const command:ICommand = new commandClass();
-			command.initializeNotifier( this.multitonKey );
-			return command.execute(notification);
+			release?.();
+
+			if (queue.running + queue.waiting === 0)
+				this.removeQueue(subscription, queueKey, queue);
 		}
 	}
 
 	/**
-	 * Register a particular <code>ICommand</code> class as the handler for a particular
-	 * <code>INotification</code>.
+	 * Execute the <code>ICommand</code>s of an <code>INotification</code> in
+	 * <code>replace</code> mode, with an <code>AbortSignal</code> aborted when a later one
+	 * arrives.
 	 *
-	 * If an <code>ICommand</code> has already been registered to handle
-	 * <code>INotification</code>s with this name, it is no longer used, the new
-	 * <code>ICommand</code> is used instead.
-	 * 
-	 * The <code>Observer</code> for the new <code>ICommand</code> is only created if this is
-	 * the first time an <code>ICommand</code> has been registered for this
-	 * <code>Notification</code> name.
-	 * 
-	 * @param notificationName
-	 * 		The name of the <code>INotification</code>.
+	 * @param notification
+	 * 		The <code>INotification</code> to handle.
 	 *
-	 * @param commandClassRef
-	 * 		The constructor of the <code>ICommand</code>.
+	 * @param queue
+	 * 		The queue of the <code>INotification</code>.
+	 *
+	 * @param subscription
+	 * 		The name or <code>NotificationPattern</code> the commands are registered for.
 	 */
-	public registerCommand( notificationName:string, commandClass:CommandConstructor ):void
+	private async executeReplaceable( notification:INotification, queue:CommandQueue, subscription:string ): Promise<void>
 	{
-		if( !this.commandMap.has(notificationName) )
-			this.view?.registerObserver( notificationName, new Observer(this.executeCommand, this ) );
+		const controller = new LinkedAbortController(notification.getSignal());
+
+		queue.current = controller;
+
+		try
+		{
+			await this.executeCommands(notification, subscription, controller.signal);
+		}
+		catch (error)
+		{
+			if (queue.latest === notification || notification.getSignal()?.aborted)
+				throw error;
+
+			// Replaced, the aborted execution has no outcome.
+			this.commandFailures.delete(notification);
+		}
+		finally
+		{
+			if (queue.current === controller)
+				queue.current = undefined;
 
-		this.commandMap.set(notificationName, commandClass);
+			controller.dispose();
+		}
 	}
 
 	/**
-	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
-	 * 
+	 * Get the queue of an <code>INotification</code> name and key, created if needed.
+	 *
 	 * @param notificationName
-	 * 		Name of the <code>Notification</code> to check wheter an <code>ICommand</code> is
-	 * 		registered for.
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param key
+	 * 		The key of the queue.
 	 *
 	 * @return
-	 * 		An <code>ICommand</code> is currently registered for the given
-	 * 		<code>notificationName</code>.
+	 * 		The queue.
 	 */
-	public hasCommand( notificationName:string ):boolean
+	private getQueue( notificationName:string, key:string ):CommandQueue
 	{
-		return this.commandMap.has(notificationName);
+		let queues = this.queues.get(notificationName);
+
+		if (!queues)
+			this.queues.set(notificationName, queues = new Map());
+
+		let queue = queues.get(key);
+
+		if (!queue)
+			queues.set(key, queue = { running: 0, waiting: 0, tail: Promise.resolve() });
+
+		return queue;
 	}
 
 	/**
-	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
-	 * mapping.
+	 * Remove a queue that became idle.
 	 *
 	 * @param notificationName
-	 * 		The name of the <code>INotification</code> to remove the <code>ICommand</code>
-	 * 		mapping for.
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param key
+	 * 		The key of the queue.
+	 *
+	 * @param queue
+	 * 		The idle queue.
 	 */
-	public removeCommand( notificationName:string ):void
+	private removeQueue( notificationName:string, key:string, queue:CommandQueue ):void
 	{
-		// if the Command is registered...
-		if( this.hasCommand( notificationName ) )
+		const queues = this.queues.get(notificationName);
+
+		if (queues?.get(key) !== queue)
+			return;
+
+		queues.delete(key);
+
+		if (queues.size === 0)
+			this.queues.delete(notificationName);
+	}
+
+	/**
+	 * Execute the <code>ICommand</code>s registered for an <code>INotification</code>.
+	 *
+	 * The <code>ICommand</code>s are created by the <code>IContainer</code>, in a scope of
+	 * their own, and executed in registration order, according to
+	 * the execution mode of the <code>INotification</code> name. No more are started once the
+	 * <code>AbortSignal</code> of the <code>INotification</code> is aborted, this then rejects
+	 * with a <code>NotificationAbortError</code>.
+	 *
+	 * The errors of the <code>ICommand</code>s are reported to the <code>IView</code>, once. With
+	 * an isolating <code>IErrorPolicy</code> the remaining <code>ICommand</code>s still execute,
+	 * this then rejects with the first error, which the <code>IView</code> does not report
+	 * again and only rethrows if the policy says so.
+	 * 
+	 * @param notification
+	 * 		The <code>INotification</code> the commands will receive as parameter.
+	 *
+	 * @param subscription
+	 * 		The name or <code>NotificationPattern</code> the commands are registered for, the
+	 * 		name of the <code>INotification</code> by default.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @protected
+	 */
+	protected async executeCommands( notification:INotification, subscription:string = notification.getName(), signal:AbortSignal | undefined = notification.getSignal() ): Promise<void>
+	{
+		const registrations = this.commandMap.get(subscription);
+
+		if (!registrations)
+			return;
+
+		// Copy the list, a command may add or remove registrations while executing.
+		const commands = registrations.slice(0);
+		const scope = this.container.createScope();
+		const errors:unknown[] = [];
+		let outcomes:(CommandOutcome | undefined)[] = [];
+
+		if (this.executionModeMap.get(subscription) === "parallel")
 		{
-			this.view?.removeObserver( notificationName, this );			
-			this.commandMap.delete(notificationName);
+			outcomes = await Promise.all(commands.map((registration) => this.executeReported(registration, notification, scope, errors, signal)));
+		}
+		else
+		{
+			for (let i = 0; i < commands.length; i++)
+				outcomes.push(await this.executeReported(commands[i], notification, scope, errors, signal));
 		}
+
+		if (errors.length > 0)
+			throw errors[0];
+
+		// Left to the trailing runs of their rate limits, the commands have no result to give.
+		const ran = outcomes.filter((outcome) => outcome !== undefined);
+
+		if (ran.length > 0)
+			this.commandResults.set(notification, ran[ran.length - 1].result);
 	}
 
+	/**
+	 * Execute a registration, reporting its error to the <code>IView</code>.
+	 *
+	 * @param registration
+	 * 		The registration to execute.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param container
+	 * 		The scope the <code>ICommand</code> is created in.
+	 *
+	 * @param errors
+	 * 		Collects the error when the <code>IErrorPolicy</code> isolates it, instead of
+	 * 		throwing it.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution.
+	 *
+	 * @return
+	 * 		The value the <code>ICommand</code> resolved with, none if its rate limit left the
+	 * 		<code>INotification</code> to a trailing run or skipped it.
+	 */
+	private async executeReported( registration:ICommandRegistration, notification:INotification, container:IContainer, errors:unknown[], signal?:AbortSignal ): Promise<CommandOutcome | undefined>
+	{
+		try
+		{
+			const execution = this.executeRegistration(registration, notification, container, signal);
+
+			return execution ? { result: await execution } : undefined;
+		}
+		catch (error)
+		{
+			if (error instanceof NotificationAbortError)
+				throw error;
+
+			if (!this.commandFailures.has(notification))
+				this.commandFailures.set(notification, error);
+
+			await this.view?.reportFailure(registration.commandClass ?? registration.loader, notification, error);
+
+			if (!this.view?.getErrorPolicy().isolate)
+				throw error;
+
+			errors.push(error);
+
+			return { result: undefined };
+		}
+	}
 
 	/**
-	 * Error message used to indicate that a <code>Controller</code> singleton instance is
-	 * already constructed for this multiton key.
+	 * Get the value the <code>ICommand</code>s handling an <code>INotification</code> resolved
+	 * with, the one of the last registered when there are several.
 	 *
-	 * @protected
-	 * @constant
+	 * @param notification
+	 * 		The handled <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The value, <code>undefined</code> if the <code>INotification</code> was not handled.
+	 *
+	 * @throws
+	 * 		The first error thrown by the <code>ICommand</code>s, even when the
+	 * 		<code>IErrorPolicy</code> isolated it.
 	 */
-	static MULTITON_MSG:string = "Controller instance for this multiton key already constructed!";
+	public getCommandResult( notification:INotification ):unknown
+	{
+		if (this.commandFailures.has(notification))
+			throw this.commandFailures.get(notification);
+
+		return this.commandResults.get(notification);
+	}
 
 	/**
-	 * <code>Controller</code> singleton instance map.
+	 * Check if the <code>ICommand</code>s registered for an <code>INotification</code> were
+	 * executed to an outcome, a value or an error.
 	 *
-	 * @protected
+	 * @param notification
+	 * 		The <code>INotification</code> sent.
+	 *
+	 * @return
+	 * 		Whether the <code>ICommand</code>s ran, not when the <code>INotification</code> did
+	 * 		not reach them or their execution was skipped or replaced.
 	 */
-	static instanceMap:Map<string, IController> = new Map();
+	public hasCommandResult( notification:INotification ):boolean
+	{
+		return this.commandResults.has(notification) || this.commandFailures.has(notification);
+	}
 
 	/**
-	 * <code>Controller</code> multiton factory method.
+	 * Execute the <code>ICommand</code> of a registration, through its
+	 * <code>RateLimiter</code> when its policy has a <code>rateLimit</code>.
 	 *
-	 * @param key
-	 *		The multiton key of the instance of <code>Controller</code> to create or retrieve.
-		*
-		* @return
-		* 		The multiton instance of <code>Controller</code>
-		*/
-	static getInstance( key:string ): IController
+	 * The <code>rateLimit</code> of the static <code>policy</code> of a lazy registration is
+	 * only known once loaded. A trailing run is not waited for, it runs on its own and its
+	 * error is reported to the <code>IView</code>.
+	 *
+	 * @param registration
+	 * 		The registration to execute.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param container
+	 * 		The <code>IContainer</code> scope to create the <code>ICommand</code> in.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @return
+	 * 		The promise of the value the <code>ICommand</code> resolves with,
+	 * 		<code>undefined</code> if the rate limit left this <code>INotification</code> to a
+	 * 		trailing run or skipped it.
+	 *
+	 * @protected
+	 */
+	protected executeRegistration( registration:ICommandRegistration, notification:INotification, container:IContainer, signal:AbortSignal | undefined = notification.getSignal() ): Promise<unknown> | undefined
 	{
-		if (!Controller.instanceMap.has(key))
-			Controller.instanceMap.set(key, new Controller( key ));
+		const rateLimit = (registration.policy ?? registration.commandClass?.policy)?.rateLimit;
+
+		if (!rateLimit)
+			return this.runRegistration(registration, notification, container, signal);
 
-		return Controller.instanceMap.get(key)!;
+		let limiter = this.rateLimiters.get(registration);
+
+		if (!limiter)
+		{
+			limiter = new RateLimiter(this.clock, rateLimit, (call:CommandCall) => this.runRegistration(registration, call.notification, call.container, call.signal),
+				(error, call) => this.reportTrailingFailure(registration, call.notification, error));
+			this.rateLimiters.set(registration, limiter);
+		}
+
+		return limiter.call({ notification, container, signal });
 	}
 
 	/**
-	 * Remove a <code>Controller</code> instance.
-	 * 
-	 * @param key
-	 *		Multiton key of the <code>Controller</code> instance to remove.
-		*/
-	static removeController( key:string ):void
+	 * Report the error of the trailing run of a rate limited registration to the
+	 * <code>IView</code>, no sender waiting for it.
+	 *
+	 * @param registration
+	 * 		The rate limited registration.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> of the trailing run.
+	 *
+	 * @param error
+	 * 		The thrown error.
+	 */
+	private async reportTrailingFailure( registration:ICommandRegistration, notification:INotification, error:unknown ): Promise<void>
 	{
+		if (!(error instanceof NotificationAbortError))
+			await this.view?.reportFailure(registration.commandClass ?? registration.loader, notification, error);
+	}
+
+	/**
+	 * Execute the <code>ICommand</code> of a registration, loading it first for a lazy
+	 * registration.
+	 *
+	 * @param registration
+	 * 		The registration to execute.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param container
+	 * 		The <code>IContainer</code> scope to create the <code>ICommand</code> in.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @protected
+	 */
+	protected async runRegistration( registration:ICommandRegistration, notification:INotification, container:IContainer, signal:AbortSignal | undefined = notification.getSignal() ): Promise<unknown>
+	{
+		const commandClass = registration.loader ? await this.loadCommand(registration.loader, notification) : registration.commandClass;
+
+		return this.invokeCommand(commandClass, notification, registration.policy, container, signal);
+	}
+
+	/**
+	 * Load the constructor of an <code>ICommand</code> with its <code>CommandLoader</code>.
+	 *
+	 * The loader runs once, concurrent calls share its promise and the constructor is cached.
+	 * A failed load sends <code>COMMAND_LOAD_FAILED</code> and is attempted again on the next
+	 * call.
+	 *
+	 * @param loader
+	 * 		The <code>CommandLoader</code> of the <code>ICommand</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> that needs the <code>ICommand</code>.
+	 *
+	 * @return
+	 * 		The constructor of the <code>ICommand</code>.
+	 *
+	 * @protected
+	 */
+	protected async loadCommand( loader:CommandLoader, notification:INotification ): Promise<CommandConstructor>
+	{
+		const loaded = this.loadedCommands.get(loader);
+
+		if (loaded)
+			return loaded;
+
+		let pending = this.pendingLoads.get(loader);
+
+		if (!pending)
+		{
+			pending = (async () =>
+			{
+				try
+				{
+					const module = await loader();
+					const commandClass = typeof module === "function" ? module : module?.default;
+
+					if (!Controller.isCommandClass(commandClass))
+						throw Error( Controller.LOADER_MSG );
+
+					this.loadedCommands.set(loader, commandClass);
+
+					return commandClass;
+				}
+				catch (error)
+				{
+					const failure:ICommandLoadFailure = { notification, loader, error };
+
+					await this.view?.notifyObservers(new Notification(Controller.COMMAND_LOAD_FAILED, failure));
+
+					throw error;
+				}
+				finally
+				{
+					this.pendingLoads.delete(loader);
+				}
+			})();
+
+			this.pendingLoads.set(loader, pending);
+		}
+
+		return pending;
+	}
+
+	/**
+	 * Execute a single <code>ICommand</code> through the <code>ICommandInterceptor</code>s.
+	 *
+	 * The <code>ICommand</code> is only created once every interceptor has called
+	 * <code>next</code>, with the <code>INotification</code> they may have replaced, and is
+	 * then executed according to its <code>ICommandPolicy</code>.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the <code>ICommand</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param policy
+	 * 		The policy given at registration, if any.
+	 *
+	 * @param container
+	 * 		The <code>IContainer</code> scope to create the <code>ICommand</code> in.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @return
+	 * 		The value the <code>ICommand</code> resolved with, as left by the interceptors.
+	 *
+	 * @protected
+	 */
+	protected async invokeCommand( commandClass:CommandConstructor, notification:INotification, policy?:ICommandPolicy, container:IContainer = this.container, signal:AbortSignal | undefined = notification.getSignal() ): Promise<unknown>
+	{
+		const invocation:ICommandInvocation = { notification, commandClass, multitonKey: this.multitonKey, container, signal };
+
+		// Copy the list, the pipeline of an execution is fixed when it starts.
+		const interceptors = this.interceptors.slice(0);
+
+		const next = async (index:number): Promise<void> =>
+		{
+			if (index < interceptors.length)
+				return interceptors[index].intercept(invocation, () => next(index + 1));
+
+			return this.runCommand(invocation, policy ?? invocation.commandClass.policy ?? {});
+		};
+
+		await next(0);
+
+		return invocation.result;
+	}
+
+	/**
+	 * Execute an <code>ICommand</code>, a new instance for each attempt, enforcing the
+	 * timeout and retry policy.
+	 *
+	 * Sends <code>COMMAND_TIMEOUT</code> whenever an attempt times out, and
+	 * <code>COMMAND_RETRY_EXHAUSTED</code> when the last allowed attempt fails or
+	 * <code>retryOn</code> declines to retry. Each attempt gets an <code>AbortSignal</code> of
+	 * its own, aborted with the <code>CommandTimeoutError</code> when it times out: the
+	 * attempt is no longer awaited, it should stop.
+	 *
+	 * @param invocation
+	 * 		The command class and notification, as left by the interceptors.
+	 *
+	 * @param policy
+	 * 		The timeout and retry policy to enforce.
+	 *
+	 * @protected
+	 */
+	protected async runCommand( invocation:ICommandInvocation, policy:ICommandPolicy ): Promise<void>
+	{
+		const { commandClass, notification, container, signal } = invocation;
+		const { timeout, retry } = policy;
+		const maxAttempts = Math.max(1, retry?.maxAttempts ?? 1);
+
+		for (let attempt = 1; ; attempt++)
+		{
+			NotificationAbortError.throwIfAborted(notification, signal);
+
+			const attemptController = new LinkedAbortController(signal);
+
+			try
+			{
+				const execution = this.createCommand(commandClass, container).execute(notification, { results: [], container, signal: attemptController.signal });
+
+				invocation.result = await (timeout === undefined ? execution : this.limit(execution, commandClass, timeout, attemptController));
+
+				return;
+			}
+			catch (error)
+			{
+				if (error instanceof NotificationAbortError)
+					throw error;
+
+				const failure:ICommandFailure = { notification, commandClass, attempts: attempt, error };
+
+				if (error instanceof CommandTimeoutError)
+					await this.view?.notifyObservers(new Notification(Controller.COMMAND_TIMEOUT, failure));
+
+				if (attempt >= maxAttempts || (retry.retryOn && !retry.retryOn(error, attempt)))
+				{
+					if (maxAttempts > 1)
+						await this.view?.notifyObservers(new Notification(Controller.COMMAND_RETRY_EXHAUSTED, failure));
+
+					throw error;
+				}
+
+				await this.delay(this.getRetryDelay(retry, attempt), notification, signal);
+			}
+			finally
+			{
+				attemptController.dispose();
+			}
+		}
+	}
+
+	/**
+	 * Reject with a <code>CommandTimeoutError</code> if an execution does not settle in time,
+	 * aborting the execution with it.
+	 *
+	 * @param execution
+	 * 		The pending execution.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the executed <code>ICommand</code>.
+	 *
+	 * @param timeout
+	 * 		The timeout in milliseconds.
+	 *
+	 * @param controller
+	 * 		The <code>AbortController</code> of the signal the execution watches.
+	 *
+	 * @return
+	 * 		The outcome of the execution, unless timed out first.
+	 */
+	private limit<ResultType>( execution:Promise<ResultType>, commandClass:CommandConstructor, timeout:number, controller:AbortController ): Promise<ResultType>
+	{
+		return new Promise<ResultType>((resolve, reject) =>
+		{
+			const handle = this.clock.setTimeout(() =>
+			{
+				const error = new CommandTimeoutError(commandClass, timeout);
+
+				reject(error);
+				controller.abort(error);
+			}, timeout);
+
+			execution
+				.then(resolve, reject)
+				.finally(() => this.clock.clearTimeout(handle));
+		});
+	}
+
+	/**
+	 * Wait, on the <code>IClock</code>, unless the handling of an <code>INotification</code>
+	 * is aborted first.
+	 *
+	 * @param delay
+	 * 		The delay in milliseconds.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the wait.
+	 *
+	 * @throws NotificationAbortError
+	 * 		When the <code>signal</code> is aborted before the delay elapsed, the timer is then
+	 * 		cleared.
+	 */
+	private async delay( delay:number, notification:INotification, signal?:AbortSignal ): Promise<void>
+	{
+		let handle:unknown;
+
+		try
+		{
+			await NotificationAbortError.race(notification, new Promise<void>((resolve) => handle = this.clock.setTimeout(resolve, delay)), signal);
+		}
+		finally
+		{
+			this.clock.clearTimeout(handle);
+		}
+	}
+
+	/**
+	 * Compute the delay before the next attempt of a failed <code>ICommand</code>.
+	 *
+	 * @param retry
+	 * 		The retry policy of the <code>ICommand</code>.
+	 *
+	 * @param attempt
+	 * 		The number of the attempt that failed.
+	 *
+	 * @return
+	 * 		The delay in milliseconds.
+	 *
+	 * @protected
+	 */
+	protected getRetryDelay( retry:IRetryPolicy, attempt:number ):number
+	{
+		const { initialDelay = 100, factor = 2, maxDelay = Infinity, jitter = 0 } = retry;
+		const delay = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+
+		return delay * (1 - jitter * this.random());
+	}
+
+	/**
+	 * Create an <code>ICommand</code> instance, its declared dependencies injected, and
+	 * initialize it with the multiton key of this core.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the <code>ICommand</code>.
+	 *
+	 * @param container
+	 * 		The <code>IContainer</code> scope to create the <code>ICommand</code> in.
+	 *
+	 * @return
+	 * 		The <code>ICommand</code> ready to be executed.
+	 *
+	 * @protected
+	 */
+	protected createCommand( commandClass:CommandConstructor, container:IContainer = this.container ):ICommand
+	{
+		const command:ICommand = container.instantiate(commandClass);
+		command.initializeNotifier( this.multitonKey );
+
+		return command;
+	}
+
+	/**
+	 * Register a particular <code>ICommand</code> class as a handler for a particular
+	 * <code>INotification</code>.
+	 *
+	 * If <code>ICommand</code>s have already been registered to handle
+	 * <code>INotification</code>s with this name, the new <code>ICommand</code> is added after
+	 * them, they are all executed.
+	 * 
+	 * The <code>Observer</code> for the new <code>ICommand</code> is only created if this is
+	 * the first time an <code>ICommand</code> has been registered for this
+	 * <code>Notification</code> name.
+	 *
+	 * Registered for a <code>NotificationPattern</code>, the <code>ICommand</code> handles
+	 * every <code>INotification</code> whose name matches, after the <code>ICommand</code>s
+	 * of the name itself and of more specific patterns. The execution mode and concurrency
+	 * settings are those of the pattern.
+	 * 
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>, or a <code>NotificationPattern</code>.
+	 *
+	 * @param commandClassRef
+	 * 		The constructor of the <code>ICommand</code>, or a <code>CommandLoader</code>
+	 * 		called on the first matching notification. The load is shared by concurrent
+	 * 		notifications and its result cached.
+	 *
+	 * @param policy
+	 * 		The timeout, retry and rate limit policy of this registration, overriding the static
+	 * 		<code>policy</code> of the command class.
+	 *
+	 * @return
+	 * 		The handle of this registration, used to remove it without removing the other
+	 * 		<code>ICommand</code>s registered for the same name.
+	 */
+	public registerCommand<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		commandClass:CommandConstructor<NotificationOf<MapType, SubscribedName<MapType, NameType>>> | CommandLoader<NotificationOf<MapType, SubscribedName<MapType, NameType>>>, policy?:ICommandPolicy ):ICommandRegistration<NotificationOf<MapType, SubscribedName<MapType, NameType>>>
+	{
+		const loadedCommands = this.loadedCommands;
+		const loader = Controller.isCommandClass(commandClass) ? undefined : commandClass;
+
+		const registration:ICommandRegistration<NotificationOf<MapType, SubscribedName<MapType, NameType>>> =
+		{
+			notificationName,
+			get commandClass()
+			{
+				return loader ? loadedCommands.get(loader) : commandClass as CommandConstructor;
+			},
+			loader,
+			policy,
+			remove: () => this.removeRegistration(registration)
+		};
+
+		const registrations = this.commandMap.get(notificationName);
+
+		if (registrations)
+		{
+			registrations.push(registration);
+		}
+		else
+		{
+			this.view?.registerObserver( notificationName, this.createObserver(notificationName), this.getCommandPriority(notificationName) );
+			this.commandMap.set(notificationName, [registration]);
+		}
+
+		return registration;
+	}
+
+	/**
+	 * Remove a single <code>ICommand</code> registration.
+	 *
+	 * The <code>Observer</code> of the <code>Controller</code> is removed with the last
+	 * registration for the <code>INotification</code> name.
+	 *
+	 * @param registration
+	 * 		The handle returned by <code>registerCommand</code>.
+	 *
+	 * @return
+	 * 		The registration was still active and has been removed.
+	 *
+	 * @protected
+	 */
+	protected removeRegistration( registration:ICommandRegistration ):boolean
+	{
+		const registrations = this.commandMap.get(registration.notificationName);
+		const index = registrations?.indexOf(registration) ?? -1;
+
+		if (index < 0)
+			return false;
+
+		registrations.splice(index, 1);
+		this.disposeRateLimiter(registration);
+
+		if (registrations.length === 0)
+		{
+			this.view?.removeObserver( registration.notificationName, this );
+			this.commandMap.delete(registration.notificationName);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Add an <code>ICommandInterceptor</code> wrapping the execution of every
+	 * <code>ICommand</code>.
+	 *
+	 * Interceptors run in the order they were added, the first one added is the outermost.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	public addCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		this.interceptors.push(interceptor);
+	}
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code>.
+	 *
+	 * Executions already started keep running through it.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 *
+	 * @return
+	 * 		The interceptor was added and has been removed.
+	 */
+	public removeCommandInterceptor( interceptor:ICommandInterceptor ):boolean
+	{
+		const index = this.interceptors.indexOf(interceptor);
+
+		if (index < 0)
+			return false;
+
+		this.interceptors.splice(index, 1);
+
+		return true;
+	}
+
+	/**
+	 * Set how the <code>ICommand</code>s registered for an <code>INotification</code> name are
+	 * executed.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param mode
+	 * 		<code>sequential</code> (the default) or <code>parallel</code>.
+	 */
+	public setExecutionMode( notificationName:NotificationSubscription<MapType>, mode:CommandExecutionMode ):void
+	{
+		this.executionModeMap.set(notificationName, mode);
+	}
+
+	/**
+	 * Get how the <code>ICommand</code>s registered for an <code>INotification</code> name are
+	 * executed.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The execution mode for the <code>INotification</code> name.
+	 */
+	public getExecutionMode( notificationName:NotificationSubscription<MapType> ):CommandExecutionMode
+	{
+		return this.executionModeMap.get(notificationName) ?? "sequential";
+	}
+
+	/**
+	 * Set how the handlings of successive <code>INotification</code>s with a name are
+	 * scheduled relative to each other.
+	 *
+	 * Notifications already queued keep the settings they were queued with.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param concurrency
+	 * 		The concurrency mode, and the function keying the queues.
+	 */
+	public setConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType, concurrency:ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ):void
+	{
+		this.concurrencyMap.set(notificationName, concurrency as ICommandConcurrency);
+	}
+
+	/**
+	 * Get how the handlings of successive <code>INotification</code>s with a name are
+	 * scheduled relative to each other.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The concurrency settings, <code>parallel</code> unless set.
+	 */
+	public getConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType ):ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>>
+	{
+		return this.concurrencyMap.get(notificationName) ?? { mode: "parallel" };
+	}
+
+	/**
+	 * Set the priority of the <code>ICommand</code>s registered for an
+	 * <code>INotification</code> name relative to the other <code>IObserver</code>s of the
+	 * <code>IView</code>.
+	 *
+	 * Set before registering the <code>ICommand</code>s, or the <code>Observer</code> of the
+	 * <code>Controller</code> is registered again, after the others with the same priority.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param priority
+	 * 		Higher priorities are notified first, <code>0</code> by default.
+	 */
+	public setCommandPriority( notificationName:NotificationSubscription<MapType>, priority:number ):void
+	{
+		this.priorityMap.set(notificationName, priority);
+
+		if (this.commandMap.has(notificationName))
+		{
+			this.view?.removeObserver( notificationName, this );
+			this.view?.registerObserver( notificationName, this.createObserver(notificationName), priority );
+		}
+	}
+
+	/**
+	 * Get the priority of the <code>ICommand</code>s registered for an
+	 * <code>INotification</code> name relative to the other <code>IObserver</code>s of the
+	 * <code>IView</code>.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The priority, <code>0</code> unless set.
+	 */
+	public getCommandPriority( notificationName:NotificationSubscription<MapType> ):number
+	{
+		return this.priorityMap.get(notificationName) ?? 0;
+	}
+
+	/**
+	 * Get the state of the queues of an <code>INotification</code> name.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		One status per key with notifications being handled or waiting.
+	 */
+	public getQueueStatus( notificationName:NotificationSubscription<MapType> ):ICommandQueueStatus[]
+	{
+		const { mode } = this.getConcurrency(notificationName);
+		const queues = this.queues.get(notificationName) ?? new Map<string, CommandQueue>();
+
+		return Array.from(queues, ([key, { running, waiting }]) => ({ notificationName, key, mode, running, waiting }));
+	}
+
+	/**
+	 * Set the <code>IClock</code> timing the command timeouts and retries.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	public setClock( clock:IClock ):void
+	{
+		this.clock = clock;
+	}
+
+	/**
+	 * Get the <code>IClock</code> timing the command timeouts and retries.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	public getClock():IClock
+	{
+		return this.clock;
+	}
+
+	/**
+	 * Set the <code>RandomSource</code> of the jitter of the command retries.
+	 *
+	 * @param random
+	 * 		The <code>RandomSource</code> to use, a predictable one in tests.
+	 */
+	public setRandom( random:RandomSource ):void
+	{
+		this.random = random;
+	}
+
+	/**
+	 * Get the <code>RandomSource</code> of the jitter of the command retries.
+	 *
+	 * @return
+	 * 		The <code>RandomSource</code> in use.
+	 */
+	public getRandom():RandomSource
+	{
+		return this.random;
+	}
+
+	/**
+	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
+	 * 
+	 * @param notificationName
+	 * 		Name of the <code>Notification</code> to check wheter an <code>ICommand</code> is
+	 * 		registered for.
+	 *
+	 * @return
+	 * 		An <code>ICommand</code> is currently registered for the given
+	 * 		<code>notificationName</code>.
+	 */
+	public hasCommand( notificationName:NotificationSubscription<MapType> ):boolean
+	{
+		return this.commandMap.has(notificationName);
+	}
+
+	/**
+	 * Remove all the previously registered <code>ICommand</code> to <code>INotification</code>
+	 * mappings for an <code>INotification</code> name.
+	 *
+	 * Use the handle returned by <code>registerCommand</code> to remove a single
+	 * <code>ICommand</code>.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code> to remove the <code>ICommand</code>
+	 * 		mappings for.
+	 */
+	public removeCommand( notificationName:NotificationSubscription<MapType> ):void
+	{
+		// if the Command is registered...
+		if( this.hasCommand( notificationName ) )
+		{
+			this.commandMap.get(notificationName).forEach((registration) => this.disposeRateLimiter(registration));
+			this.view?.removeObserver( notificationName, this );			
+			this.commandMap.delete(notificationName);
+		}
+	}
+
+	/**
+	 * Create the <code>Observer</code> of the <code>Controller</code> for an
+	 * <code>INotification</code> name or <code>NotificationPattern</code>.
+	 *
+	 * @param subscription
+	 * 		The name or pattern the <code>ICommand</code>s are registered for.
+	 *
+	 * @return
+	 * 		The <code>Observer</code>, executing the <code>ICommand</code>s of the subscription.
+	 */
+	private createObserver( subscription:string ):IObserver
+	{
+		return new Observer((notification:INotification) => this.executeCommand(notification, subscription), this);
+	}
+
+	/**
+	 * Cancel the pending run of a removed registration, if rate limited.
+	 *
+	 * @param registration
+	 * 		The removed registration.
+	 */
+	private disposeRateLimiter( registration:ICommandRegistration ):void
+	{
+		this.rateLimiters.get(registration)?.dispose();
+		this.rateLimiters.delete(registration);
+	}
+
+
+	/**
+	 * Error message used to indicate that a <code>Controller</code> singleton instance is
+	 * already constructed for this multiton key.
+	 *
+	 * @protected
+	 * @constant
+	 */
+	static MULTITON_MSG:string = "Controller instance for this multiton key already constructed!";
+
+	/**
+	 * The name of the notification sent when an attempt of an <code>ICommand</code> times out.
+	 * Its body is an <code>ICommandFailure</code>.
+	 */
+	public static COMMAND_TIMEOUT:string = "commandTimeout";
+
+	/**
+	 * The name of the notification sent when the last allowed attempt of a retried
+	 * <code>ICommand</code> fails, or when its <code>retryOn</code> declines to retry. Its body
+	 * is an <code>ICommandFailure</code>.
+	 */
+	public static COMMAND_RETRY_EXHAUSTED:string = "commandRetryExhausted";
+
+	/**
+	 * The name of the notification sent when the <code>CommandLoader</code> of a lazy
+	 * registration fails. Its body is an <code>ICommandLoadFailure</code>.
+	 */
+	public static COMMAND_LOAD_FAILED:string = "commandLoadFailed";
+
+	/**
+	 * Error message used to indicate that a <code>CommandLoader</code> resolved with something
+	 * else than an <code>ICommand</code> constructor.
+	 *
+	 * @protected
+	 * @constant
+	 */
+	static LOADER_MSG:string = "CommandLoader did not resolve with an ICommand constructor!";
+
+	/**
+	 * Abort reason of a notification replaced by a later one in <code>replace</code> mode.
+	 *
+	 * @protected
+	 * @constant
+	 */
+	static REPLACED_MSG:string = "Replaced by a later notification";
+
+	/**
+	 * Tell an <code>ICommand</code> constructor from a <code>CommandLoader</code>, by the
+	 * <code>execute</code> method of its prototype.
+	 *
+	 * @param commandClass
+	 * 		The constructor or loader given to <code>registerCommand</code>.
+	 *
+	 * @return
+	 * 		It is an <code>ICommand</code> constructor.
+	 */
+	static isCommandClass<NotificationType extends INotification>( commandClass:unknown ): commandClass is CommandConstructor<NotificationType>
+	{
+		return typeof (commandClass as CommandConstructor)?.prototype?.execute === "function";
+	}
+
+	/**
+	 * <code>Controller</code> singleton instance map.
+	 *
+	 * @protected
+	 */
+	static instanceMap:Map<string, IController<any>> = new Map();
+
+	/**
+	 * <code>Controller</code> multiton factory method.
+	 *
+	 * @param key
+	 *		The multiton key of the instance of <code>Controller</code> to create or retrieve.
+		*
+		* @return
+		* 		The multiton instance of <code>Controller</code>
+		*/
+	static getInstance<MapType = DefaultNotificationMap>( key:string ): IController<MapType>
+	{
+		if (!Controller.instanceMap.has(key))
+			Controller.instanceMap.set(key, new Controller( key ));
+
+		return Controller.instanceMap.get(key) as IController<MapType>;
+	}
+
+	/**
+	 * Remove a <code>Controller</code> instance.
+	 *
+	 * The <code>RateLimiter</code>s of its registrations are disposed, so no trailing call
+	 * reaches a removed core.
+	 * 
+	 * @param key
+	 *		Multiton key of the <code>Controller</code> instance to remove.
+		*/
+	static removeController( key:string ):void
+	{
+		const controller = Controller.instanceMap.get(key);
+
+		if (controller instanceof Controller)
+			controller.rateLimiters.forEach((limiter) => limiter.dispose());
+
 		Controller.instanceMap.delete(key);
 	}
 }
@@ -172,12 +172,20 @@ export class Model
 
 	/**
 	 * Remove a <code>Model</code> instance
+	 *
+	 * Its <code>IProxy</code>s are removed first, so their <code>onRemove</code> can release
+	 * what they hold, like timers.
 	 * 
 	 * @param key
 	 *		Multiton key identifier for the <code>Model</code> instance to remove.
 		*/
 	static removeModel( key: string ):void
 	{
+		const model = Model.instanceMap.get(key);
+
+		if (model instanceof Model)
+			Array.from(model.proxyMap.keys()).forEach((proxyName) => model.removeProxy(proxyName));
+
 		Model.instanceMap.delete(key);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,513 @@
+import { DefaultNotificationMap, IClock, IScheduledJob, IScheduledJobFailure, IScheduler, IView, NotificationBody, NotificationName, NotificationType, ScheduledJobState } from "../interfaces";
+import { CronExpression, SystemClock } from "../patterns/clock";
+import { Notification, NotificationAbortError } from "../patterns/observer";
+import { View } from "./View";
+
+/**
+ * A job of the <code>Scheduler</code>, with the state behind its <code>IScheduledJob</code>
+ * handle.
+ */
+interface SchedulerEntry
+{
+	job:IScheduledJob;
+	state:ScheduledJobState;
+	send:() => Promise<void>;
+	interval?:number;
+	cron?:CronExpression;
+	handle?:unknown;
+	nextRun?:number;
+	remaining?:number;
+}
+
+/**
+ * The <code>Scheduler</code> class for PureMVC.
+ *
+ * A multiton <code>IScheduler</code> implementation.
+ *
+ * The <code>Scheduler</code> assumes these responsibilities:
+ * <UL>
+ * <LI>Send notifications through the <code>View</code> of its core after a delay, at fixed
+ * intervals or on cron expressions.
+ * <LI>Time them with the <code>IClock</code> of the core.
+ * <LI>Pause, resume and cancel the jobs, and cancel them all when the core is removed.
+ *
+ * A failed scheduled notification is reported with a
+ * <code>SCHEDULED_NOTIFICATION_FAILED</code> notification. An interval job keeps its pace
+ * whatever the time its notifications take to be handled.
+ */
+export class Scheduler<MapType = DefaultNotificationMap>
+	implements IScheduler<MapType>
+{
+	/**
+	 * Local reference to the <code>View</code> of the core.
+	 *
+	 * @protected
+	 */
+	protected view?:IView;
+
+	/**
+	 * The <code>IClock</code> timing the jobs.
+	 *
+	 * @protected
+	 */
+	protected clock:IClock;
+
+	/**
+	 * The jobs not done nor cancelled, by id.
+	 *
+	 * @protected
+	 */
+	protected jobs:Map<number, SchedulerEntry>;
+
+	/**
+	 * Aborts the scheduled notifications still being handled when the core is removed.
+	 *
+	 * @protected
+	 */
+	protected abortController:AbortController;
+
+	/**
+	 * The id of the last job scheduled.
+	 */
+	#lastId:number;
+
+	/**
+	 * The multiton key for this core.
+	 *
+	 * @protected
+	 */
+	protected multitonKey:string;
+
+	/**
+	 * This <code>IScheduler</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton factory method
+	 * <code>Scheduler.getInstance( key )</code>.
+	 *
+	 * @param key
+	 *		Multiton key for this instance of <code>Scheduler</code>.
+	 *
+	 * @throws Error
+	 * 		Throws an error if an instance for this multiton key has already been constructed.
+	 */
+	constructor( key:string )
+	{
+		if (Scheduler.instanceMap.has(key))
+			throw Error( Scheduler.MULTITON_MSG );
+
+		Scheduler.instanceMap.set(key, this as IScheduler<any>);
+
+		this.multitonKey = key;
+		this.clock = new SystemClock();
+		this.jobs = new Map();
+		this.abortController = new AbortController();
+		this.#lastId = 0;
+		this.initializeScheduler();
+	}
+
+	/**
+	 * Initialize the multiton <code>Scheduler</code> instance.
+	 *
+	 * Called automatically by the constructor. Override it in a subclass to talk to another
+	 * <code>IView</code> implementation.
+	 *
+	 * @protected
+	 */
+	protected initializeScheduler():void
+	{
+		this.view = View.getInstance(this.multitonKey);
+	}
+
+	/**
+	 * Send a notification once, after a delay.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param delay
+	 * 		The delay in milliseconds.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 */
+	public scheduleOnce<NameType extends NotificationName<MapType>>( notificationName:NameType, delay:number,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob
+	{
+		const entry = this.createEntry(notificationName, body, type);
+
+		this.start(entry, delay);
+
+		return entry.job;
+	}
+
+	/**
+	 * Send a notification repeatedly, at a fixed interval.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param interval
+	 * 		The interval in milliseconds, the first notification is sent after one interval.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 */
+	public scheduleInterval<NameType extends NotificationName<MapType>>( notificationName:NameType, interval:number,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob
+	{
+		const entry = this.createEntry(notificationName, body, type);
+
+		entry.interval = Math.max(1, interval);
+		this.start(entry, entry.interval);
+
+		return entry.job;
+	}
+
+	/**
+	 * Send a notification at the times matching a cron expression.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param expression
+	 * 		The five fields cron expression, see <code>CronExpression</code>.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 *
+	 * @throws Error
+	 * 		If the expression is invalid.
+	 */
+	public scheduleCron<NameType extends NotificationName<MapType>>( notificationName:NameType, expression:string,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob
+	{
+		const cron = new CronExpression(expression);
+		const entry = this.createEntry(notificationName, body, type);
+		const now = this.clock.now();
+
+		entry.cron = cron;
+		this.start(entry, cron.next(now) - now);
+
+		return entry.job;
+	}
+
+	/**
+	 * Get the jobs not done nor cancelled.
+	 *
+	 * @return
+	 * 		The jobs, in scheduling order.
+	 */
+	public getJobs():IScheduledJob[]
+	{
+		return Array.from(this.jobs.values(), (entry) => entry.job);
+	}
+
+	/**
+	 * Cancel every job.
+	 */
+	public cancelAll():void
+	{
+		this.jobs.forEach((entry) => this.cancel(entry));
+	}
+
+	/**
+	 * Set the <code>IClock</code> timing the jobs.
+	 *
+	 * Jobs already scheduled keep their timers until paused and resumed.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	public setClock( clock:IClock ):void
+	{
+		this.clock = clock;
+	}
+
+	/**
+	 * Get the <code>IClock</code> timing the jobs.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	public getClock():IClock
+	{
+		return this.clock;
+	}
+
+	/**
+	 * Create a job and its handle.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param body
+	 * 		The body of the notification.
+	 *
+	 * @param type
+	 * 		The type of the notification.
+	 *
+	 * @return
+	 * 		The new job, not started.
+	 *
+	 * @protected
+	 */
+	protected createEntry( notificationName:string, body:unknown, type:string | undefined ):SchedulerEntry
+	{
+		const id = ++this.#lastId;
+		const entry:SchedulerEntry =
+		{
+			job:
+			{
+				id,
+				notificationName,
+				get state() { return entry.state; },
+				get nextRun() { return entry.nextRun; },
+				pause: () => this.pause(entry),
+				resume: () => this.resume(entry),
+				cancel: () => this.cancel(entry)
+			},
+			state: "scheduled",
+			send: () => this.send(entry, new Notification(notificationName, body, type, this.abortController.signal))
+		};
+
+		this.jobs.set(id, entry);
+
+		return entry;
+	}
+
+	/**
+	 * Send the notification of a job, reporting its failure with a
+	 * <code>SCHEDULED_NOTIFICATION_FAILED</code> notification.
+	 *
+	 * @param entry
+	 * 		The job.
+	 *
+	 * @param notification
+	 * 		The notification to send.
+	 *
+	 * @protected
+	 */
+	protected async send( entry:SchedulerEntry, notification:Notification ): Promise<void>
+	{
+		try
+		{
+			await this.view?.notifyObservers(notification);
+		}
+		catch (error)
+		{
+			if (error instanceof NotificationAbortError && this.abortController.signal.aborted)
+				return;
+
+			const failure:IScheduledJobFailure = { job: entry.job, error };
+
+			try
+			{
+				await this.view?.notifyObservers(new Notification(Scheduler.SCHEDULED_NOTIFICATION_FAILED, failure));
+			}
+			catch
+			{
+				// Nothing is left to report a failing report to
+			}
+		}
+	}
+
+	/**
+	 * Start the timer of a job.
+	 *
+	 * @param entry
+	 * 		The job.
+	 *
+	 * @param delay
+	 * 		The delay before its next run in milliseconds.
+	 */
+	private start( entry:SchedulerEntry, delay:number ):void
+	{
+		entry.state = "scheduled";
+		entry.remaining = undefined;
+		entry.nextRun = this.clock.now() + Math.max(0, delay);
+		this.arm(entry);
+	}
+
+	/**
+	 * Set the timer of a job for its next run.
+	 *
+	 * Timers clamp the delays over <code>MAX_DELAY</code> to 1 ms, a longer delay is waited in
+	 * steps of <code>MAX_DELAY</code> at most, the timer set again after each one.
+	 *
+	 * @param entry
+	 * 		The scheduled job.
+	 */
+	private arm( entry:SchedulerEntry ):void
+	{
+		const delay = Math.max(0, entry.nextRun - this.clock.now());
+
+		if (delay > Scheduler.MAX_DELAY)
+			entry.handle = this.clock.setTimeout(() => this.arm(entry), Scheduler.MAX_DELAY);
+		else
+			entry.handle = this.clock.setTimeout(() => this.run(entry), delay);
+	}
+
+	/**
+	 * Run a job: schedule its next run, if any, then send its notification.
+	 *
+	 * @param entry
+	 * 		The job.
+	 */
+	private run( entry:SchedulerEntry ):void
+	{
+		const now = this.clock.now();
+
+		if (entry.interval !== undefined)
+		{
+			this.start(entry, entry.nextRun + entry.interval - now);
+		}
+		else if (entry.cron)
+		{
+			this.start(entry, entry.cron.next(now) - now);
+		}
+		else
+		{
+			entry.state = "done";
+			entry.nextRun = undefined;
+			this.jobs.delete(entry.job.id);
+		}
+
+		entry.send();
+	}
+
+	/**
+	 * Pause a scheduled job.
+	 *
+	 * @param entry
+	 * 		The job.
+	 */
+	private pause( entry:SchedulerEntry ):void
+	{
+		if (entry.state !== "scheduled")
+			return;
+
+		this.clock.clearTimeout(entry.handle);
+		entry.state = "paused";
+		entry.remaining = entry.cron ? undefined : Math.max(0, entry.nextRun - this.clock.now());
+		entry.nextRun = undefined;
+	}
+
+	/**
+	 * Resume a paused job.
+	 *
+	 * @param entry
+	 * 		The job.
+	 */
+	private resume( entry:SchedulerEntry ):void
+	{
+		if (entry.state !== "paused")
+			return;
+
+		const now = this.clock.now();
+
+		this.start(entry, entry.cron ? entry.cron.next(now) - now : entry.remaining);
+	}
+
+	/**
+	 * Cancel a job.
+	 *
+	 * @param entry
+	 * 		The job.
+	 */
+	private cancel( entry:SchedulerEntry ):void
+	{
+		if (entry.state === "done" || entry.state === "cancelled")
+			return;
+
+		if (entry.state === "scheduled")
+			this.clock.clearTimeout(entry.handle);
+
+		entry.state = "cancelled";
+		entry.nextRun = undefined;
+		this.jobs.delete(entry.job.id);
+	}
+
+	/**
+	 * Error message used to indicate that a <code>Scheduler</code> singleton instance is
+	 * already constructed for this multiton key.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static MULTITON_MSG:string = "Scheduler instance for this multiton key already constructed!";
+
+	/**
+	 * The longest delay a timer waits, 2^31 - 1 ms or about 24.8 days.
+	 *
+	 * @constant
+	 */
+	static MAX_DELAY:number = 2147483647;
+
+	/**
+	 * Notification sent when the handling of a scheduled notification fails, with an
+	 * <code>IScheduledJobFailure</code> body.
+	 *
+	 * @constant
+	 */
+	static SCHEDULED_NOTIFICATION_FAILED:string = "scheduledNotificationFailed";
+
+	/**
+	 * <code>Scheduler</code> singleton instance map.
+	 *
+	 * @protected
+	 */
+	static instanceMap:Map<string, IScheduler<any>> = new Map();
+
+	/**
+	 * <code>Scheduler</code> multiton factory method.
+	 *
+	 * @param key
+	 *		The multiton key of the instance of <code>Scheduler</code> to create or retrieve.
+	 *
+	 * @return
+	 * 		The singleton instance of the <code>Scheduler</code>.
+	 */
+	static getInstance<MapType = DefaultNotificationMap>( key:string ):IScheduler<MapType>
+	{
+		if (!Scheduler.instanceMap.has(key))
+			Scheduler.instanceMap.set(key, new Scheduler(key));
+
+		return Scheduler.instanceMap.get(key) as IScheduler<MapType>;
+	}
+
+	/**
+	 * Remove a <code>Scheduler</code> instance, cancelling its jobs and aborting the handling
+	 * of the notifications they sent.
+	 *
+	 * @param key
+	 *		Multiton key identifier for the <code>Scheduler</code> instance to remove.
+	 */
+	static removeScheduler( key:string ):void
+	{
+		const scheduler = Scheduler.instanceMap.get(key);
+
+		scheduler?.cancelAll();
+
+		if (scheduler instanceof Scheduler)
+			scheduler.abortController.abort(Error( `Core ${key} removed` ));
+
+		Scheduler.instanceMap.delete(key);
+	}
+}
@@ -1,5 +1,45 @@
-import { IMediator, INotification, IObserver, IView } from "../interfaces";
-import { Observer } from "../patterns/observer";
+import { DuplicateObserverPolicy, IAbandonedObserver, IClock, IErrorPolicy, IMediator, INotification, INotificationInterest, IObserver, IObserverFailure, IObserverSubscription, ISaga, IView, NotificationInterest } from "../interfaces";
+import { RateLimiter, SystemClock } from "../patterns/clock";
+import { Notification, NotificationAbortError, NotificationPatternIndex, Observer, WeakObserver } from "../patterns/observer";
+
+/**
+ * The observers the <code>View</code> registered for an <code>IMediator</code>.
+ */
+interface MediatorObservers
+{
+	/**
+	 * The <code>Observer</code> calling <code>handleNotification</code>, shared by the
+	 * interests without rate limit.
+	 */
+	observer:IObserver;
+
+	/**
+	 * The registered interests, in registration order.
+	 */
+	interests:MediatorInterest[];
+}
+
+/**
+ * An interest the <code>View</code> registered for an <code>IMediator</code>.
+ */
+interface MediatorInterest
+{
+	/**
+	 * The notification name or <code>NotificationPattern</code>.
+	 */
+	name:string;
+
+	/**
+	 * The subscription of the <code>Observer</code>, none when the duplicate policy kept the
+	 * subscription of an equivalent observer instead.
+	 */
+	subscription?:IObserverSubscription;
+
+	/**
+	 * The <code>RateLimiter</code> of a rate limited interest.
+	 */
+	limiter?:RateLimiter<INotification>;
+}
 
 /**
  * The <code>View</code> class for PureMVC.
@@ -11,6 +51,8 @@ import { Observer } from "../patterns/observer";
  * <LI>Maintain a cache of <code>IMediator</code> instances.
  * <LI>Provide methods for registering, retrieving, and removing <code>IMediator</code>s.
  * <LI>Notifiying <code>IMediator</code>s when they are registered or removed.
+ * <LI>Maintain the <code>ISaga</code>s of the core, the same way as the
+ * <code>IMediator</code>s.
  * <LI>Managing the <code>Observer</code> lists for each <code>INotification</code> in the
  * application.
  * <LI>Providing a method for attaching <code>IObservers</code> to an
@@ -18,6 +60,13 @@ import { Observer } from "../patterns/observer";
  * <LI>Providing a method for broadcasting an <code>INotification</code>.
  * <LI>Notifying the <code>IObserver</code>s of a given <code>INotification</code> when it
  * broadcasts.
+ *
+ * <code>IObserver</code>s can be registered for a <code>NotificationPattern</code> instead of
+ * a name, like <code>user/*</code> or <code>user/**</code>, to be notified of every
+ * <code>INotification</code> whose hierarchical name matches.
+ *
+ * A <code>WeakObserver</code> does not keep its notification context alive, it is dropped
+ * once the context is garbage collected.
  */
 export class View
 	implements IView
@@ -30,11 +79,85 @@ export class View
 	#mediatorMap:Map<string, IMediator>;
 
 	/**
-	 * Mapping of <code>Notification</code> names to <code>Observers</code> lists.
+	 * Mapping of <code>Saga</code> names to <code>Saga</code> instances.
 	 *
 	 * @protected
 	 */
-	#observerMap:Map<string, IObserver[]>;
+	#sagaMap:Map<string, ISaga>;
+
+	/**
+	 * Mapping of <code>Saga</code> names to the interests they were registered for.
+	 *
+	 * @protected
+	 */
+	#sagaInterests:Map<string, string[]>;
+
+	/**
+	 * Mapping of <code>Notification</code> names to <code>Observers</code> lists, by
+	 * decreasing priority then registration order.
+	 *
+	 * @protected
+	 */
+	#observerMap:Map<string, IObserverSubscription[]>;
+
+	/**
+	 * The <code>NotificationPattern</code>s of the <code>Observers</code> lists.
+	 *
+	 * @protected
+	 */
+	#patternIndex:NotificationPatternIndex;
+
+	/**
+	 * Mapping of <code>Mediator</code> names to the <code>Observers</code> registered for
+	 * their interests.
+	 *
+	 * @protected
+	 */
+	#interestMap:Map<string, MediatorObservers>;
+
+	/**
+	 * The <code>IClock</code> timing the rate limited mediator interests.
+	 *
+	 * @protected
+	 */
+	#clock:IClock;
+
+	/**
+	 * How the errors of the <code>Observer</code>s are handled.
+	 *
+	 * @protected
+	 */
+	#errorPolicy:IErrorPolicy;
+
+	/**
+	 * The errors already reported, not to report them again as they propagate.
+	 *
+	 * @protected
+	 */
+	#reportedErrors:WeakSet<object>;
+
+	/**
+	 * The errors reported for each <code>Notification</code>, not to report again those the
+	 * <code>Observers</code> reported themselves, whatever their type.
+	 *
+	 * @protected
+	 */
+	#reportedFailures:WeakMap<INotification, unknown[]>;
+
+	/**
+	 * Drops the subscriptions of the <code>WeakObserver</code>s whose context is collected.
+	 *
+	 * @protected
+	 */
+	#finalizationRegistry:FinalizationRegistry<IObserverSubscription>;
+
+	/**
+	 * What <code>registerObserver</code> does with an <code>Observer</code> already
+	 * registered for the name.
+	 *
+	 * @protected
+	 */
+	#duplicatePolicy:DuplicateObserverPolicy;
 	
 	/**
 	 * Multiton key for this <code>View</code> instance.
@@ -63,7 +186,17 @@ export class View
 
 		this.#multitonKey = key;
 		this.#mediatorMap = new Map();
+		this.#sagaMap = new Map();
+		this.#sagaInterests = new Map();
 		this.#observerMap = new Map();
+		this.#patternIndex = new NotificationPatternIndex();
+		this.#interestMap = new Map();
+		this.#clock = new SystemClock();
+		this.#errorPolicy = {};
+		this.#reportedErrors = new WeakSet();
+		this.#reportedFailures = new WeakMap();
+		this.#finalizationRegistry = new FinalizationRegistry((subscription) => this.removeSubscription(subscription));
+		this.#duplicatePolicy = "allow";
 
 		this.initializeView();
 	}
@@ -85,68 +218,284 @@ export class View
 	 * 
 	 * @param notificationName
 	 * 		The name of the <code>INotifications</code> to notify this <code>IObserver</code>
-	 * 		of.
+	 * 		of, or a <code>NotificationPattern</code> matching their names.
 	 *
 	 * @param observer
 	 * 		The <code>IObserver</code> to register.
+	 *
+	 * @param priority
+	 * 		The <code>IObserver</code>s with a higher priority are notified first, those with
+	 * 		the same priority in registration order. <code>0</code> by default.
+	 *
+	 * @return
+	 * 		The subscription, the handle removing it with <code>removeSubscription</code>. The
+	 * 		registered one when a duplicate is ignored, <code>undefined</code> for a
+	 * 		<code>WeakObserver</code> whose context is already collected.
+	 *
+	 * @throws Error
+	 * 		If the <code>IObserver</code> is a duplicate and the
+	 * 		<code>DuplicateObserverPolicy</code> is <code>error</code>.
 	 */
-	public registerObserver( notificationName:string, observer:IObserver ):void
+	public registerObserver( notificationName:string, observer:IObserver, priority:number = 0 ):IObserverSubscription | undefined
 	{
+		if (observer instanceof WeakObserver && observer.isCollected())
+			return undefined;
+
+		const duplicate = this.#observerMap.get(notificationName)?.find((registered) => View.isDuplicate(registered.observer, observer));
+
+		if (duplicate && this.#duplicatePolicy === "ignore")
+			return duplicate;
+
+		if (duplicate && this.#duplicatePolicy === "error")
+			throw Error( `${View.DUPLICATE_MSG} ${notificationName}` );
+
+		if (duplicate && this.#duplicatePolicy === "replace")
+			this.removeSubscription(duplicate);
+
+		const subscription:IObserverSubscription = { notificationName, observer, priority };
 		const observers = this.#observerMap.get(notificationName);
 
 		if (observers)
-			observers.push(observer);
+		{
+			const index = observers.findIndex((registered) => registered.priority < priority);
+
+			observers.splice(index < 0 ? observers.length : index, 0, subscription);
+		}
 		else
-			this.#observerMap.set(notificationName,  [observer]);
+		{
+			this.#observerMap.set(notificationName,  [subscription]);
+
+			if (NotificationPatternIndex.isPattern(notificationName))
+				this.#patternIndex.add(notificationName);
+		}
+
+		if (observer instanceof WeakObserver)
+			this.#finalizationRegistry.register(observer.getNotifyContext(), subscription, subscription);
+
+		return subscription;
 	}
 
 	/**
 	 * Remove a list of <code>IObserver</code>s for a given <code>notifyContext</code> from an
 	 * <code>IObserver</code> list for a given <code>INotification</code> name.
 	 *
+	 * Every <code>IObserver</code> with the context is removed, or only those with the
+	 * notification method too when it is given.
+	 *
 	 * @param notificationName
 	 * 		Which <code>IObserver</code> list to remove from.
 	 *
 	 * @param notifyContext
-	 * 		Remove the <code>IObserver</code> with this object as its
+	 * 		Remove the <code>IObserver</code>s with this object as their
 	 *		<code>notifyContext</code>.
-		*/
-	public removeObserver( notificationName:string, notifyContext:any ):void
+	 *
+	 * @param notifyMethod
+	 * 		Only remove the <code>IObserver</code>s with this notification method (optional).
+	 *
+	 * @return
+	 * 		The removed subscriptions.
+	 */
+	public removeObserver( notificationName:string, notifyContext:any, notifyMethod?:Function ):IObserverSubscription[]
 	{
 		//The observer list for the notification under inspection
-		const observers = this.#observerMap.get(notificationName);
+		const observers = this.#observerMap.get(notificationName) ?? [];
 
-		if (!observers)
-			return
+		//Find the observers for the notifyContext.
+		const removed = observers.filter(({ observer }) => observer.compareNotifyContext(notifyContext)
+			&& (notifyMethod === undefined || observer.getNotifyMethod() === notifyMethod));
 
-		//Find the observer for the notifyContext.
-		let i:number = observers.length;
-		
-		while( i-- )
-		{
-			const observer:IObserver = observers[i];
+		removed.forEach((subscription) => this.removeSubscription(subscription));
 
-			if (observer.compareNotifyContext(notifyContext))
-			{
-				observers.splice( i, 1 );
-				break;
-			}
-		}
+		return removed;
+	} 
+
+	/**
+	 * Remove the <code>IObserver</code>s with a given <code>notifyContext</code> from every
+	 * <code>IObserver</code> list.
+	 *
+	 * @param notifyContext
+	 * 		Remove the <code>IObserver</code>s with this object as their
+	 *		<code>notifyContext</code>.
+	 *
+	 * @return
+	 * 		The removed subscriptions.
+	 */
+	public removeAllObservers( notifyContext:any ):IObserverSubscription[]
+	{
+		const removed = Array.from(this.#observerMap.values()).flat()
+			.filter(({ observer }) => observer.compareNotifyContext(notifyContext));
+
+		removed.forEach((subscription) => this.removeSubscription(subscription));
+
+		return removed;
+	}
+
+	/**
+	 * Remove a subscription returned by <code>registerObserver</code>, and only this one.
+	 *
+	 * @param subscription
+	 * 		The subscription to remove.
+	 *
+	 * @return
+	 * 		The subscription was registered, and is removed.
+	 */
+	public removeSubscription( subscription:IObserverSubscription ):boolean
+	{
+		const { notificationName } = subscription;
+		const observers = this.#observerMap.get(notificationName) ?? [];
+		const index = observers.indexOf(subscription);
+
+		if (index < 0)
+			return false;
+
+		observers.splice( index, 1 );
+		this.#finalizationRegistry.unregister(subscription);
 
 		/*
 			* Also, when a Notification's Observer list length falls to zero, delete the
 			* notification key from the observer map.
 			*/
 		if (observers.length === 0)
+		{
 			this.#observerMap.delete(notificationName);
-	} 
+			this.#patternIndex.remove(notificationName);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Set what <code>registerObserver</code> does when the <code>IObserver</code>, or one
+	 * with the same notification method and context, is already registered for the name.
+	 *
+	 * @param policy
+	 * 		The <code>DuplicateObserverPolicy</code>, <code>allow</code> by default.
+	 */
+	public setDuplicatePolicy( policy:DuplicateObserverPolicy ):void
+	{
+		this.#duplicatePolicy = policy;
+	}
+
+	/**
+	 * Get what <code>registerObserver</code> does with a duplicate <code>IObserver</code>.
+	 *
+	 * @return
+	 * 		The <code>DuplicateObserverPolicy</code> in use.
+	 */
+	public getDuplicatePolicy():DuplicateObserverPolicy
+	{
+		return this.#duplicatePolicy;
+	}
+
+	/**
+	 * Report the <code>IObserver</code>s whose notification context looks abandoned, a
+	 * diagnostic for development and tests.
+	 *
+	 * The contexts are inspected with heuristics: an <code>IMediator</code> or an
+	 * <code>ISaga</code> that is not registered with this <code>View</code>, or a DOM node no
+	 * longer attached to a document. The <code>WeakObserver</code>s whose context has been
+	 * collected are dropped rather than reported.
+	 *
+	 * @return
+	 * 		The suspicious subscriptions, with the reason they look abandoned.
+	 */
+	public reportAbandonedObservers():IAbandonedObserver[]
+	{
+		const report:IAbandonedObserver[] = [];
+
+		for (const subscription of Array.from(this.#observerMap.values()).flat())
+		{
+			const { observer } = subscription;
+			const context = observer.getNotifyContext();
+
+			if (observer instanceof WeakObserver && observer.isCollected())
+				this.removeSubscription(subscription);
+			else if (typeof context?.getMediatorName === "function" && this.#mediatorMap.get(context.getMediatorName()) !== context)
+				report.push({ subscription, reason: "unregistered-mediator" });
+			else if (typeof context?.getSagaName === "function" && this.#sagaMap.get(context.getSagaName()) !== context)
+				report.push({ subscription, reason: "unregistered-saga" });
+			else if (context?.isConnected === false)
+				report.push({ subscription, reason: "detached-node" });
+		}
+
+		return report;
+	}
+
+	/**
+	 * Get the <code>IObserver</code>s notified of the <code>INotification</code>s with a given
+	 * name, in the order they are notified.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>s.
+	 *
+	 * @return
+	 * 		The <code>IObserver</code>s, empty if none matches.
+	 */
+	public getObservers( notificationName:string ):IObserver[]
+	{
+		return this.getSubscriptions(notificationName).map((subscription) => subscription.observer);
+	}
+
+	/**
+	 * Get the subscriptions of the <code>IObserver</code>s notified of the
+	 * <code>INotification</code>s with a given name, in the order they are notified.
+	 *
+	 * The <code>IObserver</code>s with a higher priority come first. Among those with the
+	 * same priority, the ones registered for the name itself come first, then those of the
+	 * matching <code>NotificationPattern</code>s, the most specific pattern first: more
+	 * literal segments, then no <code>**</code>, then the pattern registered first. Within a
+	 * name or pattern they keep their registration order. An <code>IObserver</code> matching
+	 * through several subscriptions is listed once, at its first position.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>s.
+	 *
+	 * @return
+	 * 		The subscriptions, empty if none matches.
+	 */
+	public getSubscriptions( notificationName:string ):IObserverSubscription[]
+	{
+		const subscriptions = (this.#observerMap.get(notificationName) ?? []).slice(0);
+		const patterns = this.#patternIndex.match(notificationName);
+
+		for (const pattern of patterns)
+			subscriptions.push(...this.#observerMap.get(pattern) ?? []);
+
+		// The sort is stable, equal priorities keep the precedence of their subscriptions.
+		if (patterns.length > 0)
+			subscriptions.sort((a, b) => b.priority - a.priority);
+
+		const observers = new Set<IObserver>();
+
+		return subscriptions.filter(({ observer }) =>
+		{
+			if (observers.has(observer) || (observer instanceof WeakObserver && observer.isCollected()))
+				return false;
+
+			observers.add(observer);
+
+			return true;
+		});
+	}
 
 	/**
 	 * Notify the <code>IObserver</code>s for a particular <code>INotification</code>.
 	 *
 	 * All previously attached <code>IObserver</code>s for this <code>INotification</code>'s
-	 * list are notified and are passed a reference to the <code>INotification</code> in the
-	 * order in which they were registered.
+	 * name and the matching patterns are notified and are passed a reference to the
+	 * <code>INotification</code>, in the order given by <code>getObservers</code>.
+	 *
+	 * When an <code>IObserver</code> calls <code>stopPropagation</code> on the
+	 * <code>INotification</code>, the remaining <code>IObserver</code>s are not notified.
+	 *
+	 * When the <code>AbortSignal</code> of the <code>INotification</code> is aborted, the
+	 * remaining <code>IObserver</code>s are not notified and this rejects with a
+	 * <code>NotificationAbortError</code>.
+	 *
+	 * The error thrown by an <code>IObserver</code> is reported with
+	 * <code>reportFailure</code>, unless the <code>IObserver</code> already reported it, as
+	 * the <code>Controller</code> does for its <code>ICommand</code>s, then handled according
+	 * to the <code>IErrorPolicy</code>.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to notify <code>IObserver</code>s of.
@@ -155,21 +504,124 @@ export class View
 	{
 		const notificationName:string = notification.getName();
 
-		const observersRef = this.#observerMap.get(notificationName);
+		// A copy, observers may be added or removed while notifying.
+		const observers = this.getObservers(notificationName);
+		
+		const length = observers.length;
+		const { isolate, rethrow } = this.#errorPolicy;
+		const errors:unknown[] = [];
 
-		if (observersRef)
+		for (let i = 0; i < length && !notification.isPropagationStopped(); i++)
 		{
-			// Copy the array.
-			const observers = observersRef.slice(0);
-			
-			const length = observers.length;
+			const observer = observers[i];
+
+			NotificationAbortError.throwIfAborted(notification);
 
-			for (let i = 0; i < length; i++)
+			try
 			{
-				const observer = observers[i];
-				await observer.notifyObserver(notification);
+				await NotificationAbortError.race(notification, observer.notifyObserver(notification));
 			}
+			catch (error)
+			{
+				if (error instanceof NotificationAbortError)
+					throw error;
+
+				if (!this.#reportedFailures.get(notification)?.includes(error))
+					await this.reportFailure(observer.getNotifyContext(), notification, error);
+
+				if (!isolate)
+					throw error;
+
+				errors.push(error);
+			}
+		}
+
+		if (rethrow && errors.length > 0)
+			throw errors.length === 1 ? errors[0] : new AggregateError(errors, `${View.FAILED_MSG} ${notificationName}`);
+	}
+
+	/**
+	 * Report an error thrown while an <code>INotification</code> was being handled.
+	 *
+	 * The report is passed to the <code>handler</code> of the <code>IErrorPolicy</code>, and
+	 * sent as a <code>View.OBSERVER_FAILED</code> notification, unless it is the report of a
+	 * failing <code>View.OBSERVER_FAILED</code> observer. An error is only reported once, as
+	 * it propagates through nested notifications. An error thrown by the <code>handler</code>
+	 * or by a <code>View.OBSERVER_FAILED</code> observer is ignored, it never replaces the
+	 * reported error.
+	 *
+	 * @param actor
+	 * 		What failed: the notification context of the <code>IObserver</code>, or the
+	 * 		constructor of the <code>ICommand</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param error
+	 * 		The thrown error.
+	 */
+	public async reportFailure( actor:unknown, notification:INotification, error:unknown ): Promise<void>
+	{
+		if (Object(error) === error)
+		{
+			if (this.#reportedErrors.has(error as object))
+				return;
+
+			this.#reportedErrors.add(error as object);
 		}
+
+		const failure:IObserverFailure = { actor, notification, error, stack: error instanceof Error ? error.stack : undefined };
+		const reported = this.#reportedFailures.get(notification);
+
+		if (reported)
+			reported.push(error);
+		else
+			this.#reportedFailures.set(notification, [error]);
+
+		try
+		{
+			this.#errorPolicy.handler?.(failure);
+		}
+		catch
+		{
+			// The handler must not prevent the report, nor replace the reported error.
+		}
+
+		if (notification.getName() === View.OBSERVER_FAILED)
+			return;
+
+		try
+		{
+			await this.notifyObservers(new Notification(View.OBSERVER_FAILED, failure));
+		}
+		catch
+		{
+			// Reporting must not replace the reported error.
+		}
+	}
+
+	/**
+	 * Set how the errors thrown by the <code>IObserver</code>s and <code>ICommand</code>s are
+	 * handled.
+	 *
+	 * @param policy
+	 * 		The <code>IErrorPolicy</code> of the core.
+	 */
+	public setErrorPolicy( policy:IErrorPolicy ):void
+	{
+		this.#errorPolicy = policy;
+	}
+
+	/**
+	 * Get how the errors thrown by the <code>IObserver</code>s and <code>ICommand</code>s are
+	 * handled.
+	 *
+	 * @return
+	 * 		The <code>IErrorPolicy</code> of the core, empty unless set.
+	 */
+	public getErrorPolicy():IErrorPolicy
+	{
+		return this.#errorPolicy;
 	}
 
 	/**
@@ -184,6 +636,19 @@ export class View
 	 * it as an <code>Observer</code> for all <code>INotification</code>s the
 	 * <code>IMediator</code> is interested in.
 	 *
+	 * An interest with a <code>rateLimit</code> gets an <code>Observer</code> of its own,
+	 * debouncing or throttling the calls to <code>handleNotification</code>. Only a leading
+	 * call holds up the notification, a trailing call runs later on its own and its error is
+	 * reported with <code>reportFailure</code>. An interest with a <code>priority</code>
+	 * registers its <code>Observer</code> with it.
+	 *
+	 * The interests are read once, the <code>IMediator</code> changes them afterwards with
+	 * <code>addMediatorInterest</code> and <code>removeMediatorInterest</code>.
+	 *
+	 * When an interest cannot be registered, as with the <code>"error"</code>
+	 * <code>DuplicateObserverPolicy</code>, the registration is rolled back and the error
+	 * thrown: the <code>IMediator</code> is left unregistered, without any observer.
+	 *
 	 * @param mediator
 	 * 		A reference to an <code>IMediator</code> implementation instance.
 	 */
@@ -200,17 +665,30 @@ export class View
 		//Register the Mediator for retrieval by name.
 		this.#mediatorMap.set(name, mediator);
 		
-		//Get Notification interests, if any.
-		const interests:string[] = mediator.listNotificationInterests();
+		//Create Observer referencing this mediator's handlNotification method.
+		this.#interestMap.set(name, { observer: new Observer(mediator.handleNotification, mediator), interests: [] });
 
-		if (interests?.length > 0)
+		try
 		{
-			//Create Observer referencing this mediator's handlNotification method.
-			const observer:IObserver = new Observer(mediator.handleNotification, mediator);
+			//Get Notification interests, if any.
+			const interests:NotificationInterest[] = mediator.listNotificationInterests() ?? [];
 
 			//Register Mediator as Observer for its list of Notification interests.
 			for (let i = 0;  i < interests.length; i++)
-				this.registerObserver( interests[i],  observer);
+				this.addMediatorInterest( name, interests[i] );
+		}
+		catch (error)
+		{
+			//Roll back, the mediator is not registered.
+			const registered = this.#interestMap.get(name).interests;
+
+			while (registered.length > 0)
+				this.removeMediatorInterest(name, registered[registered.length - 1].name);
+
+			this.#interestMap.delete(name);
+			this.#mediatorMap.delete(name);
+
+			throw error;
 		}
 		
 		//Alert the mediator that it has been registered.
@@ -251,12 +729,13 @@ export class View
 		if (!mediator)
 			return undefined;
 
-		//Get Notification interests, if any.
-		const interests:string[] = mediator.listNotificationInterests();
+		//For every notification this mediator was registered for...
+		const interests = this.#interestMap.get(mediatorName)?.interests ?? [];
 
-		//For every notification this mediator is interested in...
-		while (interests?.length > 0)
-			this.removeObserver(interests.pop()!, mediator);
+		while (interests.length > 0)
+			this.removeMediatorInterest(mediatorName, interests[interests.length - 1].name);
+
+		this.#interestMap.delete(mediatorName);
 
 		// remove the mediator from the map
 		this.#mediatorMap.delete(mediatorName);
@@ -281,6 +760,248 @@ export class View
 		return this.#mediatorMap.has(mediatorName);
 	}
 
+	/**
+	 * Register an <code>IMediator</code> for one more interest.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param interest
+	 * 		A notification name or <code>NotificationPattern</code>, or an
+	 * 		<code>INotificationInterest</code> with the options of the subscription.
+	 *
+	 * @return
+	 * 		The interest is registered, it is not if the <code>IMediator</code> is not or
+	 * 		already is for this name.
+	 */
+	public addMediatorInterest( mediatorName:string, interest:NotificationInterest ):boolean
+	{
+		const mediator = this.#mediatorMap.get(mediatorName);
+		const registered = this.#interestMap.get(mediatorName);
+		const { name, rateLimit, priority } = View.toInterest(interest);
+
+		if (!mediator || !registered || registered.interests.some((entry) => entry.name === name))
+			return false;
+
+		// A rate limited interest gets an Observer of its own, debouncing or throttling the calls.
+		// The trailing calls run on their own, their errors are reported.
+		const limiter = rateLimit ? new RateLimiter(this.#clock, rateLimit, (notification:INotification) => mediator.handleNotification(notification),
+			(error, notification) => this.reportFailure(mediator, notification, error)) : undefined;
+		const observer = limiter ? new Observer((notification:INotification) => limiter.call(notification), mediator) : registered.observer;
+
+		const subscription = this.registerObserver( name, observer, priority );
+
+		//Under the "ignore" policy, the subscription returned may be another observer's, left to its owner.
+		registered.interests.push({ name, subscription: subscription?.observer === observer ? subscription : undefined, limiter });
+
+		return true;
+	}
+
+	/**
+	 * Stop notifying an <code>IMediator</code> for one of its interests.
+	 *
+	 * The pending calls of a rate limited interest are cancelled. A subscription the
+	 * <code>"ignore"</code> duplicate policy kept for an equivalent observer is left to it.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param notificationName
+	 * 		The notification name or <code>NotificationPattern</code> of the interest.
+	 *
+	 * @return
+	 * 		The interest was registered, and is removed.
+	 */
+	public removeMediatorInterest( mediatorName:string, notificationName:string ):boolean
+	{
+		const interests = this.#interestMap.get(mediatorName)?.interests ?? [];
+		const index = interests.findIndex((entry) => entry.name === notificationName);
+
+		if (index < 0)
+			return false;
+
+		const [{ subscription, limiter }] = interests.splice(index, 1);
+
+		//Only remove the subscription the mediator created.
+		if (subscription)
+			this.removeSubscription(subscription);
+
+		//Cancel the pending calls of a rate limited interest
+		limiter?.dispose();
+
+		return true;
+	}
+
+	/**
+	 * List the interests an <code>IMediator</code> is registered for.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @return
+	 * 		The notification names and <code>NotificationPattern</code>s, in registration
+	 * 		order, empty if the <code>IMediator</code> is not registered.
+	 */
+	public listMediatorInterests( mediatorName:string ):string[]
+	{
+		return (this.#interestMap.get(mediatorName)?.interests ?? []).map((entry) => entry.name);
+	}
+
+	/**
+	 * Register an <code>ISaga</code> instance with the <code>View</code>.
+	 *
+	 * An <code>Observer</code> delivering to its <code>receive</code> method is registered for
+	 * every <code>INotification</code> the <code>ISaga</code> is interested in. The interests
+	 * are read once, <code>removeSaga</code> removes the same ones.
+	 *
+	 * @param saga
+	 * 		A reference to an <code>ISaga</code> implementation instance.
+	 */
+	public registerSaga( saga:ISaga ):void
+	{
+		const name:string = saga.getSagaName();
+
+		//Do not allow re-registration (you must removeSaga first).
+		if (this.#sagaMap.has(name))
+			return;
+
+		saga.initializeNotifier( this.#multitonKey );
+		this.#sagaMap.set(name, saga);
+
+		const interests:string[] = saga.listNotificationInterests()?.slice(0) ?? [];
+
+		this.#sagaInterests.set(name, interests);
+
+		if (interests.length > 0)
+		{
+			const observer:IObserver = new Observer(saga.receive, saga);
+
+			for (let i = 0; i < interests.length; i++)
+				this.registerObserver( interests[i], observer );
+		}
+
+		saga.onRegister();
+	}
+
+	/**
+	 * Retrieve an <code>ISaga</code> from the <code>View</code>.
+	 *
+	 * @param sagaName
+	 * 		The name of the <code>ISaga</code> instance to retrieve.
+	 *
+	 * @return
+	 * 		The <code>ISaga</code> registered with the given <code>sagaName</code>, if any.
+	 */
+	public retrieveSaga( sagaName:string ):ISaga | undefined
+	{
+		return this.#sagaMap.get(sagaName);
+	}
+
+	/**
+	 * Remove an <code>ISaga</code> from the <code>View</code>, completing its running
+	 * instances.
+	 *
+	 * @param sagaName
+	 * 		Name of the <code>ISaga</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> that was removed, if it was registered.
+	 */
+	public removeSaga( sagaName:string ):ISaga | undefined
+	{
+		const saga = this.#sagaMap.get(sagaName);
+
+		if (!saga)
+			return undefined;
+
+		//Remove the interests captured at registration, the current list may differ.
+		this.#sagaInterests.get(sagaName)?.forEach((interest) => this.removeObserver(interest, saga));
+
+		saga.listInstances().forEach((instance) => instance.complete());
+		this.#sagaMap.delete(sagaName);
+		this.#sagaInterests.delete(sagaName);
+		saga.onRemove();
+
+		return saga;
+	}
+
+	/**
+	 * Check if an <code>ISaga</code> is registered or not.
+	 *
+	 * @param sagaName
+	 * 		The <code>ISaga</code> name to check whether it is registered.
+	 *
+	 * @return
+	 *		An <code>ISaga</code> is registered with the given <code>sagaName</code>.
+	 */
+	public hasSaga( sagaName:string ):boolean
+	{
+		return this.#sagaMap.has(sagaName);
+	}
+
+	/**
+	 * Set the <code>IClock</code> timing the rate limited mediator interests.
+	 *
+	 * Applies to the <code>IMediator</code>s registered afterwards.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	public setClock( clock:IClock ):void
+	{
+		this.#clock = clock;
+	}
+
+	/**
+	 * Get the <code>IClock</code> timing the rate limited mediator interests.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	public getClock():IClock
+	{
+		return this.#clock;
+	}
+
+	/**
+	 * Check if an <code>IObserver</code> duplicates a registered one: it is the same, or has
+	 * the same notification method and context.
+	 *
+	 * @param registered
+	 * 		The registered <code>IObserver</code>.
+	 *
+	 * @param observer
+	 * 		The <code>IObserver</code> being registered.
+	 *
+	 * @return
+	 * 		The <code>IObserver</code> is a duplicate.
+	 */
+	private static isDuplicate( registered:IObserver, observer:IObserver ):boolean
+	{
+		if (registered === observer)
+			return true;
+
+		const notifyMethod = observer.getNotifyMethod();
+
+		return notifyMethod !== undefined && registered.getNotifyMethod() === notifyMethod
+			&& registered.compareNotifyContext(observer.getNotifyContext());
+	}
+
+	/**
+	 * Get an entry of <code>listNotificationInterests</code> as an
+	 * <code>INotificationInterest</code>.
+	 *
+	 * @param interest
+	 * 		A notification name or an <code>INotificationInterest</code>.
+	 *
+	 * @return
+	 * 		The <code>INotificationInterest</code>.
+	 */
+	private static toInterest( interest:NotificationInterest ):INotificationInterest
+	{
+		return typeof interest === "string" ? { name: interest } : interest;
+	}
+
 
 	/**
 	 * Error message used to indicate that a <code>View</code> singleton instance is
@@ -291,6 +1012,32 @@ export class View
 	 */
 	protected static MULTITON_MSG:string = "View instance for this multiton key already constructed!";
 
+	/**
+	 * Error message of the <code>AggregateError</code> rethrown when several
+	 * <code>IObserver</code>s failed.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	protected static FAILED_MSG:string = "Observers failed handling";
+
+	/**
+	 * Error message used to indicate that an <code>IObserver</code> is already registered
+	 * for a name.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	protected static DUPLICATE_MSG:string = "Observer already registered for";
+
+	/**
+	 * Notification sent with an <code>IObserverFailure</code> body when an
+	 * <code>IObserver</code> or an <code>ICommand</code> throws.
+	 *
+	 * @constant
+	 */
+	public static OBSERVER_FAILED:string = "observerFailed";
+
 	/**
 	 * <code>View</code> singleton instance map.
 	 *
@@ -318,11 +1065,23 @@ export class View
 	/**
 	 * Remove a <code>View</code> instance.
 	 *
+	 * Its <code>ISaga</code>s are removed first, so their pending timeouts are cleared, and the
+	 * <code>RateLimiter</code>s of its <code>IMediator</code>s are disposed, so no trailing
+	 * call reaches a removed core.
+	 *
 	 * @param key
 	 * 		Key identifier of <code>View</code> instance to remove.
 	 */
 	public static removeView(key:string):void
 	{
+		const view = View.instanceMap.get(key);
+
+		if (view instanceof View)
+		{
+			Array.from(view.#sagaMap.keys()).forEach((sagaName) => view.removeSaga(sagaName));
+			view.#interestMap.forEach(({ interests }) => interests.forEach(({ limiter }) => limiter?.dispose()));
+		}
+
 		View.instanceMap.delete(key);
 	}
 }
\ No newline at end of file
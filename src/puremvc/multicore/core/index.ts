@@ -1,3 +1,5 @@
+export * from "./Container";
 export * from "./Controller";
 export * from "./Model";
+export * from "./Scheduler";
 export * from "./View";
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { IObserverSubscription } from "./IObserverSubscription";
+
+/**
+ * Why the notification context of an <code>IObserver</code> looks abandoned:
+ * <UL>
+ * <LI><code>unregistered-mediator</code>: it is an <code>IMediator</code> that is not
+ * registered with the <code>IView</code>, typically removed while some of its observers were
+ * left behind.
+ * <LI><code>unregistered-saga</code>: the same for an <code>ISaga</code>.
+ * <LI><code>detached-node</code>: it is a DOM node no longer attached to a document.
+ */
+export type AbandonedReason = "unregistered-mediator" | "unregistered-saga" | "detached-node";
+
+/**
+ * An entry of the report of <code>IView.reportAbandonedObservers</code>.
+ */
+export interface IAbandonedObserver
+{
+	/**
+	 * The registration of the <code>IObserver</code>.
+	 */
+	readonly subscription:IObserverSubscription;
+
+	/**
+	 * Why its notification context looks abandoned.
+	 */
+	readonly reason:AbandonedReason;
+}
@@ -0,0 +1,47 @@
+/**
+ * The interface definition for the source of time of a core.
+ *
+ * Every delay and timeout of the framework goes through an <code>IClock</code>, so tests can
+ * replace the <code>SystemClock</code> with a fake one and advance time by hand.
+ */
+export interface IClock
+{
+	/**
+	 * Get the current time.
+	 *
+	 * @return
+	 * 		The current time in milliseconds.
+	 */
+	now():number;
+
+	/**
+	 * Call a function once, after a delay.
+	 *
+	 * @param callback
+	 * 		The function to call.
+	 *
+	 * @param delay
+	 * 		The delay in milliseconds.
+	 *
+	 * @return
+	 * 		The handle used to cancel the call with <code>clearTimeout</code>.
+	 */
+	setTimeout( callback:() => void, delay:number ):unknown;
+
+	/**
+	 * Cancel a call scheduled with <code>setTimeout</code>.
+	 *
+	 * @param handle
+	 * 		The handle returned by <code>setTimeout</code>.
+	 */
+	clearTimeout( handle:unknown ):void;
+}
+
+/**
+ * The source of the random numbers of a core, returning a number from 0 included to 1
+ * excluded like <code>Math.random</code>.
+ *
+ * Like the <code>IClock</code>, tests can replace it to make the random parts of the delays
+ * predictable.
+ */
+export type RandomSource = () => number;
@@ -1,10 +1,16 @@
 import { INotification } from "./INotification";
+import { ICommandPolicy } from "./ICommandPolicy";
+import { IContainer } from "./IContainer";
 import { INotifier } from "./INotifier";
+import { ISubCommandResult } from "./ISubCommandResult";
 
 /**
  * The interface definition for a PureMVC Command.
+ *
+ * <code>NotificationType</code> is the <code>INotification</code> the command handles, usually
+ * derived from a notification map with <code>NotificationOf</code>.
  */
-export interface ICommand
+export interface ICommand<NotificationType extends INotification = INotification>
 	extends INotifier
 {
 	/**
@@ -16,11 +22,79 @@ export interface ICommand
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @param context
+	 * 		Details of the execution, when executed by a <code>MacroCommand</code>.
+	 *
+	 * @return
+	 * 		An optional result, made available to the <i>SubCommand</i>s executed after this one
+	 * 		when it is itself a <i>SubCommand</i>.
 	 */
-	execute( notification:INotification ): Promise<void>;
+	execute( notification:NotificationType, context?:ICommandContext ): Promise<unknown>;
+
+	/**
+	 * Revert what <code>execute</code> did.
+	 *
+	 * Optional. Called by a <code>MacroCommand</code>, last completed first, on the
+	 * <i>SubCommand</i>s that completed when another one fails or the execution is aborted.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> that was passed to <code>execute</code>.
+	 */
+	compensate?( notification:NotificationType ): Promise<void>;
+}
+
+/**
+ * Details given to an <code>ICommand</code> along with the <code>INotification</code> it
+ * handles.
+ */
+export interface ICommandContext
+{
+	/**
+	 * The results of the <i>SubCommand</i>s that completed before this one, when executed
+	 * sequentially by a <code>MacroCommand</code>. Empty otherwise.
+	 */
+	readonly results:ReadonlyArray<ISubCommandResult>;
+
+	/**
+	 * The <code>IContainer</code> scope of the execution, shared by the commands handling the
+	 * same notification and their <i>SubCommand</i>s.
+	 */
+	readonly container?:IContainer;
+
+	/**
+	 * The <code>AbortSignal</code> cancelling the execution, to watch rather than the one of
+	 * the notification: it is also aborted when the <code>Controller</code> replaces the
+	 * execution with the one of a later notification, and with the
+	 * <code>CommandTimeoutError</code> when the attempt times out.
+	 */
+	readonly signal?:AbortSignal;
 }
 
-export interface CommandConstructor
+/**
+ * The constructor of an <code>ICommand</code> handling <code>NotificationType</code>.
+ */
+export interface CommandConstructor<NotificationType extends INotification = INotification>
 {
-	new (args?:any): ICommand;
-}
\ No newline at end of file
+	new (...args:any[]): ICommand<NotificationType>;
+
+	/**
+	 * The timeout, retry and rate limit policy the <code>Controller</code> applies to the command, unless
+	 * another one is given to <code>registerCommand</code>.
+	 */
+	policy?:ICommandPolicy;
+}
+
+/**
+ * A function loading the constructor of an <code>ICommand</code> on demand, typically with a
+ * dynamic <code>import()</code> so the command stays out of the initial bundle:
+ *
+ * <pre>
+ *		facade.registerCommand( "EXPORT", () => import( "./ExportCommand" ) );
+ * </pre>
+ *
+ * It may resolve with the constructor itself or with a module whose default export is the
+ * constructor.
+ */
+export type CommandLoader<NotificationType extends INotification = INotification> =
+	() => Promise<CommandConstructor<NotificationType> | { default:CommandConstructor<NotificationType> }>;
\ No newline at end of file
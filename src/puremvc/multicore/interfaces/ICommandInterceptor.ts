@@ -0,0 +1,96 @@
+import { CommandConstructor } from "./ICommand";
+import { IContainer } from "./IContainer";
+import { INotification } from "./INotification";
+
+/**
+ * The execution of a single <code>ICommand</code> as seen by an
+ * <code>ICommandInterceptor</code>.
+ */
+export interface ICommandInvocation
+{
+	/**
+	 * The <code>INotification</code> the <code>ICommand</code> will receive.
+	 *
+	 * An interceptor may replace it before calling <code>next</code>, the interceptors after it
+	 * and the <code>ICommand</code> receive the new one.
+	 */
+	notification:INotification;
+
+	/**
+	 * The constructor of the <code>ICommand</code> about to be executed.
+	 */
+	readonly commandClass:CommandConstructor;
+
+	/**
+	 * The multiton key of the core executing the <code>ICommand</code>.
+	 */
+	readonly multitonKey:string;
+
+	/**
+	 * The <code>IContainer</code> scope the <code>ICommand</code> will be created in.
+	 */
+	readonly container:IContainer;
+
+	/**
+	 * The <code>AbortSignal</code> cancelling the execution, passed to the
+	 * <code>ICommand</code> in its <code>ICommandContext</code>.
+	 */
+	readonly signal?:AbortSignal;
+
+	/**
+	 * The value the <code>ICommand</code> resolved with, once <code>next</code> has resolved.
+	 *
+	 * An interceptor may replace it, the <code>IController</code> keeps the value left by the
+	 * outermost interceptor.
+	 */
+	result?:unknown;
+}
+
+/**
+ * The interface definition for a PureMVC Command interceptor.
+ *
+ * Interceptors registered with an <code>IController</code> wrap the execution of every
+ * <code>ICommand</code> of the core, this is the place for concerns shared by all the
+ * commands such as authorization checks, logging, timing or error translation.
+ *
+ * An interceptor may:
+ * <UL>
+ * <LI>Inspect the <code>INotification</code> and <code>ICommand</code> class before it runs.
+ * <LI>Short-circuit the execution by not calling <code>next</code>.
+ * <LI>Replace <code>invocation.notification</code> before calling <code>next</code>.
+ * <LI>Observe the outcome, or the error, by awaiting <code>next</code>, and rethrow another
+ * error or replace <code>invocation.result</code>.
+ *
+ * <pre>
+ *		class TimingInterceptor implements ICommandInterceptor
+ *		{
+ *			async intercept( invocation:ICommandInvocation, next:() => Promise<void> ): Promise<void>
+ *			{
+ *				const start = performance.now();
+ *
+ *				try
+ *				{
+ *					await next();
+ *				}
+ *				finally
+ *				{
+ *					console.log(invocation.commandClass.name, performance.now() - start);
+ *				}
+ *			}
+ *		}
+ * </pre>
+ */
+export interface ICommandInterceptor
+{
+	/**
+	 * Wrap the execution of an <code>ICommand</code>.
+	 *
+	 * @param invocation
+	 * 		The <code>ICommand</code> execution being intercepted.
+	 *
+	 * @param next
+	 * 		Runs the next interceptor, or the <code>ICommand</code> itself for the last one.
+	 * 		Resolves or rejects with the outcome of the execution.
+	 */
+	intercept( invocation:ICommandInvocation, next:() => Promise<void> ): Promise<void>;
+}
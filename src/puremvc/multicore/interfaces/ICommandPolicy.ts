@@ -0,0 +1,99 @@
+import { CommandConstructor } from "./ICommand";
+import { INotification } from "./INotification";
+import { IRateLimit } from "./IRateLimit";
+
+/**
+ * How the <code>Controller</code> executes an <code>ICommand</code>.
+ *
+ * Declared by the command class with a static <code>policy</code> property, or given to
+ * <code>registerCommand</code>, which takes precedence.
+ */
+export interface ICommandPolicy
+{
+	/**
+	 * The maximum duration of an attempt in milliseconds, after which it rejects with a
+	 * <code>CommandTimeoutError</code> and the <code>AbortSignal</code> of the attempt is
+	 * aborted with it. No limit when omitted.
+	 */
+	readonly timeout?:number;
+
+	/**
+	 * How failed attempts are retried. Not retried when omitted.
+	 */
+	readonly retry?:IRetryPolicy;
+
+	/**
+	 * How often the <code>ICommand</code> runs during a burst of notifications, timed by the
+	 * <code>IClock</code> of the core. Runs for every notification when omitted.
+	 */
+	readonly rateLimit?:IRateLimit;
+}
+
+/**
+ * How the <code>Controller</code> retries a failed <code>ICommand</code>.
+ *
+ * The delay before attempt <code>n + 1</code> is <code>initialDelay * factor ^ (n - 1)</code>,
+ * capped at <code>maxDelay</code>, then reduced by a random part of up to
+ * <code>jitter</code> of it, drawn from the <code>RandomSource</code> of the core.
+ */
+export interface IRetryPolicy
+{
+	/**
+	 * The maximum number of attempts, the first one included.
+	 */
+	readonly maxAttempts:number;
+
+	/**
+	 * The delay before the second attempt in milliseconds. Defaults to 100.
+	 */
+	readonly initialDelay?:number;
+
+	/**
+	 * The multiplier of the delay after each attempt. Defaults to 2.
+	 */
+	readonly factor?:number;
+
+	/**
+	 * The maximum delay between attempts in milliseconds. No limit when omitted.
+	 */
+	readonly maxDelay?:number;
+
+	/**
+	 * The random part of each delay removed from it, between 0 and 1. Defaults to 0.
+	 */
+	readonly jitter?:number;
+
+	/**
+	 * Decides whether a failed attempt is retried. Every error but a
+	 * <code>NotificationAbortError</code> is retried when omitted. Declining to retry
+	 * exhausts the retries.
+	 */
+	readonly retryOn?:( error:unknown, attempt:number ) => boolean;
+}
+
+/**
+ * The body of the <code>Controller.COMMAND_TIMEOUT</code> and
+ * <code>Controller.COMMAND_RETRY_EXHAUSTED</code> notifications.
+ */
+export interface ICommandFailure
+{
+	/**
+	 * The <code>INotification</code> the <code>ICommand</code> was handling.
+	 */
+	readonly notification:INotification;
+
+	/**
+	 * The constructor of the <code>ICommand</code>.
+	 */
+	readonly commandClass:CommandConstructor;
+
+	/**
+	 * The number of attempts made so far.
+	 */
+	readonly attempts:number;
+
+	/**
+	 * The error of the last attempt.
+	 */
+	readonly error:unknown;
+}
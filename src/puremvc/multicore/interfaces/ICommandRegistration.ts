@@ -0,0 +1,147 @@
+import { CommandConstructor, CommandLoader } from "./ICommand";
+import { ICommandPolicy } from "./ICommandPolicy";
+import { INotification } from "./INotification";
+
+/**
+ * The handle returned when an <code>ICommand</code> is registered with an
+ * <code>IController</code>.
+ *
+ * Several <code>ICommand</code>s may be registered for the same <code>INotification</code>
+ * name, the handle identifies one of these registrations so it can be removed without
+ * affecting the others.
+ */
+export interface ICommandRegistration<NotificationType extends INotification = INotification>
+{
+	/**
+	 * The name of the <code>INotification</code> the <code>ICommand</code> is registered for.
+	 */
+	readonly notificationName:string;
+
+	/**
+	 * The constructor of the registered <code>ICommand</code>. For a lazy registration it is
+	 * <code>undefined</code> until the <code>loader</code> has resolved.
+	 */
+	readonly commandClass:CommandConstructor<NotificationType> | undefined;
+
+	/**
+	 * The function loading the constructor of the <code>ICommand</code>, for a lazy
+	 * registration.
+	 */
+	readonly loader?:CommandLoader<NotificationType>;
+
+	/**
+	 * The timeout, retry and rate limit policy given at registration, overriding the one of the
+	 * <code>commandClass</code>.
+	 */
+	readonly policy?:ICommandPolicy;
+
+	/**
+	 * Remove this registration from the <code>IController</code>.
+	 *
+	 * @return
+	 * 		The registration was still active and has been removed.
+	 */
+	remove():boolean;
+}
+
+/**
+ * How the <code>ICommand</code>s registered for the same <code>INotification</code> name are
+ * executed.
+ *
+ * <UL>
+ * <LI><code>sequential</code>: one after the other in registration order, each one awaited
+ * before the next one is created.
+ * <LI><code>parallel</code>: all at once, created in registration order.
+ */
+export type CommandExecutionMode = "sequential" | "parallel";
+
+/**
+ * How the handlings of successive <code>INotification</code>s with the same name, and the
+ * same key, are scheduled relative to each other.
+ *
+ * <UL>
+ * <LI><code>parallel</code>: each one starts right away, the default.
+ * <LI><code>serial</code>: each one waits for the previous ones to settle, in arrival order.
+ * <LI><code>drop</code>: a notification arriving while another is handled or waiting is
+ * ignored.
+ * <LI><code>replace</code>: a notification arriving aborts the handling of the one being
+ * handled, through the <code>signal</code> of the <code>ICommandContext</code>, replaces the
+ * one waiting, and starts once the aborted one has settled.
+ */
+export type CommandConcurrencyMode = "parallel" | "serial" | "drop" | "replace";
+
+/**
+ * The concurrency settings of an <code>INotification</code> name.
+ */
+export interface ICommandConcurrency<NotificationType extends INotification = INotification>
+{
+	/**
+	 * How the handlings are scheduled.
+	 */
+	mode:CommandConcurrencyMode;
+
+	/**
+	 * Get the key of a notification, only notifications with the same key are scheduled
+	 * relative to each other. All the notifications of the name share a single queue when
+	 * omitted.
+	 *
+	 * @param notification
+	 * 		The notification to handle.
+	 *
+	 * @return
+	 * 		The key of its queue, like the id of the record it is about.
+	 */
+	key?( notification:NotificationType ):string;
+}
+
+/**
+ * The state of the queue of an <code>INotification</code> name and key, for diagnostics.
+ */
+export interface ICommandQueueStatus
+{
+	/**
+	 * The name of the <code>INotification</code>s of the queue.
+	 */
+	readonly notificationName:string;
+
+	/**
+	 * The key of the queue, an empty string when the name has no <code>key</code> function.
+	 */
+	readonly key:string;
+
+	/**
+	 * The concurrency mode of the queue.
+	 */
+	readonly mode:CommandConcurrencyMode;
+
+	/**
+	 * The number of notifications being handled.
+	 */
+	readonly running:number;
+
+	/**
+	 * The number of notifications waiting to be handled, the depth of the queue.
+	 */
+	readonly waiting:number;
+}
+
+/**
+ * The body of the <code>Controller.COMMAND_LOAD_FAILED</code> notification.
+ */
+export interface ICommandLoadFailure
+{
+	/**
+	 * The <code>INotification</code> that triggered the load.
+	 */
+	readonly notification:INotification;
+
+	/**
+	 * The function that failed to load the <code>ICommand</code>.
+	 */
+	readonly loader:CommandLoader;
+
+	/**
+	 * The reason the load failed.
+	 */
+	readonly error:unknown;
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * What an <code>IContainer</code> resolves a dependency by: a string or symbol name, or a
+ * class.
+ */
+export type InjectionToken<ValueType = any> = string | symbol | (abstract new (...args:any[]) => ValueType);
+
+/**
+ * How long a value created by an <code>IProvider</code> is reused.
+ *
+ * <UL>
+ * <LI><code>singleton</code>: one value for the core.
+ * <LI><code>scoped</code>: one value per scope, such as the handling of a notification by
+ * the <code>Controller</code>.
+ * <LI><code>transient</code>: a new value on each resolution.
+ */
+export type Lifetime = "singleton" | "scoped" | "transient";
+
+/**
+ * How an <code>IContainer</code> creates the value of a dependency. Exactly one of
+ * <code>useValue</code>, <code>useClass</code> and <code>useFactory</code> is expected.
+ */
+export interface IProvider<ValueType = any>
+{
+	/**
+	 * The value itself.
+	 */
+	readonly useValue?:ValueType;
+
+	/**
+	 * A class instantiated with its own dependencies injected.
+	 */
+	readonly useClass?:new (...args:any[]) => ValueType;
+
+	/**
+	 * A function creating the value.
+	 */
+	readonly useFactory?:( container:IContainer ) => ValueType;
+
+	/**
+	 * How long the value is reused. Defaults to <code>singleton</code>.
+	 */
+	readonly lifetime?:Lifetime;
+}
+
+/**
+ * The dependencies a class declares through its static properties:
+ *
+ * <pre>
+ *		class SaveUserCommand extends SimpleCommand
+ *		{
+ *			static inject = [UserProxy, "config"];
+ *			static injectProperties = { api: ApiService };
+ *
+ *			constructor( private users:UserProxy, private config:AppConfig ) { super(); }
+ *		}
+ * </pre>
+ */
+export interface IInjectable
+{
+	/**
+	 * The dependencies passed to the constructor, in parameter order.
+	 */
+	inject?:ReadonlyArray<InjectionToken>;
+
+	/**
+	 * The dependencies assigned to properties of the instance, by property name.
+	 */
+	injectProperties?:Readonly<Record<string, InjectionToken>>;
+}
+
+/**
+ * The interface definition for a PureMVC dependency injection container.
+ *
+ * Each core has one, it creates the <code>ICommand</code>s executed by the
+ * <code>Controller</code> and fills the declared properties of the <code>IProxy</code>s and
+ * <code>IMediator</code>s registered through the <code>Facade</code>. Registered
+ * <code>IProxy</code>s can be resolved by name, or by class when the class has a static
+ * <code>NAME</code>, without registering a provider.
+ */
+export interface IContainer
+{
+	/**
+	 * Register the provider of a dependency, replacing any previous one.
+	 *
+	 * @param token
+	 * 		The token the dependency is resolved by.
+	 *
+	 * @param provider
+	 * 		How the value of the dependency is created.
+	 */
+	register<ValueType>( token:InjectionToken<ValueType>, provider:IProvider<ValueType> ):void;
+
+	/**
+	 * Check if a dependency can be resolved.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		A provider or a registered <code>IProxy</code> matches the token.
+	 */
+	has( token:InjectionToken ):boolean;
+
+	/**
+	 * Get the value of a dependency.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @return
+	 * 		The value, created according to the lifetime of its provider.
+	 *
+	 * @throws Error
+	 * 		If nothing matches the token, or the dependencies are circular.
+	 */
+	resolve<ValueType>( token:InjectionToken<ValueType> ):ValueType;
+
+	/**
+	 * Create an instance of a class, its declared dependencies injected.
+	 *
+	 * @param type
+	 * 		The class, optionally declaring <code>IInjectable</code> static properties.
+	 *
+	 * @return
+	 * 		The new instance.
+	 */
+	instantiate<ValueType>( type:new (...args:any[]) => ValueType ):ValueType;
+
+	/**
+	 * Assign the dependencies declared by <code>injectProperties</code> on the class of an
+	 * existing instance.
+	 *
+	 * @param instance
+	 * 		The instance to fill.
+	 */
+	injectProperties( instance:object ):void;
+
+	/**
+	 * Replace the provider of a dependency until the returned function is called, typically in
+	 * tests. Values cached for the replaced provider are kept for when it is restored.
+	 *
+	 * @param token
+	 * 		The token of the dependency.
+	 *
+	 * @param provider
+	 * 		The provider to use instead.
+	 *
+	 * @return
+	 * 		A function restoring the previous provider.
+	 */
+	override<ValueType>( token:InjectionToken<ValueType>, provider:IProvider<ValueType> ):() => void;
+
+	/**
+	 * Create a child scope, sharing the providers and singletons of this container but
+	 * keeping its own <code>scoped</code> values.
+	 *
+	 * @return
+	 * 		The new scope.
+	 */
+	createScope():IContainer;
+}
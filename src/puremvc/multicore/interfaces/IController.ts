@@ -1,4 +1,10 @@
+import { IClock, RandomSource } from "./IClock";
+import { CommandConstructor, CommandLoader } from "./ICommand";
+import { ICommandInterceptor } from "./ICommandInterceptor";
+import { ICommandPolicy } from "./ICommandPolicy";
+import { CommandExecutionMode, ICommandConcurrency, ICommandQueueStatus, ICommandRegistration } from "./ICommandRegistration";
 import { INotification } from "./INotification";
+import { DefaultNotificationMap, NotificationOf, NotificationSubscription, SubscribedName } from "./INotificationMap";
 
 /**
  * The interface definition for a PureMVC Controller.
@@ -19,25 +25,32 @@ import { INotification } from "./INotification";
  *
  * The simplest way is to subclass </code>Facade</code>, and use its
  * <code>initializeController</code> method to add your registrations.
+ *
+ * The optional <code>MapType</code> notification map restricts the names commands may be
+ * registered for and the notifications they receive.
  */
-export interface IController
+export interface IController<MapType = DefaultNotificationMap>
 {
 	/**
-	 * If an <code>ICommand</code> has previously been registered to handle the given
-	 * <code>INotification</code>, then it is executed.
+	 * If <code>ICommand</code>s have previously been registered to handle the given
+	 * <code>INotification</code>, then they are executed.
 	 * 
 	 * @param notification
-	 * 		The <code>INotification</code> the command will receive as parameter.
+	 * 		The <code>INotification</code> the commands will receive as parameter.
+	 *
+	 * @param subscription
+	 * 		The name or <code>NotificationPattern</code> the commands are registered for, the
+	 * 		name of the <code>INotification</code> by default.
 	 */
-	executeCommand( notification:INotification ): Promise<void>;
+	executeCommand( notification:INotification, subscription?:string ): Promise<void>;
 	
 	/**
-	 * Register a particular <code>ICommand</code> class as the handler for a particular
+	 * Register a particular <code>ICommand</code> class as a handler for a particular
 	 * <code>INotification</code>.
 	 *
-	 * If an <code>ICommand</code> has already been registered to handle
-	 * <code>INotification</code>s with this name, it is no longer used, the new
-	 * <code>ICommand</code> is used instead.
+	 * If <code>ICommand</code>s have already been registered to handle
+	 * <code>INotification</code>s with this name, the new <code>ICommand</code> is added after
+	 * them, they are all executed.
 	 * 
 	 * The <code>Observer</code> for the new <code>ICommand</code> is only created if this the
 	 * first time an <code>ICommand</code> has been registered for this
@@ -47,9 +60,20 @@ export interface IController
 	 * 		The name of the <code>INotification</code>.
 	 *
 	 * @param commandClassRef
-	 * 		The constructor of the <code>ICommand</code> implementor classes.
+	 * 		The constructor of the <code>ICommand</code>, or a <code>CommandLoader</code>
+	 * 		called on the first matching notification. The load is shared by concurrent
+	 * 		notifications and its result cached.
+	 *
+	 * @param policy
+	 * 		The timeout, retry and rate limit policy of this registration, overriding the static
+	 * 		<code>policy</code> of the command class.
+	 *
+	 * @return
+	 * 		The handle of this registration, used to remove it without removing the other
+	 * 		<code>ICommand</code>s registered for the same name.
 	 */
-	registerCommand( notificationName:string, commandClassRef:Function ):void;
+	registerCommand<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		commandClassRef:CommandConstructor<NotificationOf<MapType, SubscribedName<MapType, NameType>>> | CommandLoader<NotificationOf<MapType, SubscribedName<MapType, NameType>>>, policy?:ICommandPolicy ):ICommandRegistration<NotificationOf<MapType, SubscribedName<MapType, NameType>>>;
 	
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
@@ -62,15 +86,183 @@ export interface IController
 	 * 		An <code>ICommand</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 		*/
-	hasCommand( notificationName:string ):boolean;
+	hasCommand( notificationName:NotificationSubscription<MapType> ):boolean;
 
 	/**
-	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
-	 * mapping.
+	 * Remove all the previously registered <code>ICommand</code> to <code>INotification</code>
+	 * mappings for an <code>INotification</code> name.
 	 *
 	 * @param notificationName
 	 * 		The name of the <code>INotification</code> to remove the <code>ICommand</code>
-	 * 		mapping for.
+	 * 		mappings for.
+	 */
+	removeCommand( notificationName:NotificationSubscription<MapType> ):void;
+
+	/**
+	 * Add an <code>ICommandInterceptor</code> wrapping the execution of every
+	 * <code>ICommand</code>.
+	 *
+	 * Interceptors run in the order they were added, the first one added is the outermost.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	addCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code>.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 *
+	 * @return
+	 * 		The interceptor was added and has been removed.
+	 */
+	removeCommandInterceptor( interceptor:ICommandInterceptor ):boolean;
+
+	/**
+	 * Set how the <code>ICommand</code>s registered for an <code>INotification</code> name are
+	 * executed.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param mode
+	 * 		<code>sequential</code> (the default) or <code>parallel</code>.
+	 */
+	setExecutionMode( notificationName:NotificationSubscription<MapType>, mode:CommandExecutionMode ):void;
+
+	/**
+	 * Get how the <code>ICommand</code>s registered for an <code>INotification</code> name are
+	 * executed.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The execution mode for the <code>INotification</code> name.
+	 */
+	getExecutionMode( notificationName:NotificationSubscription<MapType> ):CommandExecutionMode;
+
+	/**
+	 * Set how the handlings of successive <code>INotification</code>s with a name are
+	 * scheduled relative to each other.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param concurrency
+	 * 		The concurrency mode, and the function keying the queues.
+	 */
+	setConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType, concurrency:ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ):void;
+
+	/**
+	 * Get how the handlings of successive <code>INotification</code>s with a name are
+	 * scheduled relative to each other.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The concurrency settings, <code>parallel</code> unless set.
+	 */
+	getConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType ):ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>>;
+
+	/**
+	 * Set the priority of the <code>ICommand</code>s registered for an
+	 * <code>INotification</code> name relative to the other <code>IObserver</code>s of the
+	 * <code>IView</code>.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @param priority
+	 * 		Higher priorities are notified first, <code>0</code> by default.
+	 */
+	setCommandPriority( notificationName:NotificationSubscription<MapType>, priority:number ):void;
+
+	/**
+	 * Get the priority of the <code>ICommand</code>s registered for an
+	 * <code>INotification</code> name relative to the other <code>IObserver</code>s of the
+	 * <code>IView</code>.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The priority, <code>0</code> unless set.
+	 */
+	getCommandPriority( notificationName:NotificationSubscription<MapType> ):number;
+
+	/**
+	 * Get the state of the queues of an <code>INotification</code> name.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		One status per key with notifications being handled or waiting.
+	 */
+	getQueueStatus( notificationName:NotificationSubscription<MapType> ):ICommandQueueStatus[];
+
+	/**
+	 * Get the value the <code>ICommand</code>s handling an <code>INotification</code> resolved
+	 * with, the one of the last registered when there are several.
+	 *
+	 * @param notification
+	 * 		The handled <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The value, <code>undefined</code> if the <code>INotification</code> was not handled.
+	 *
+	 * @throws
+	 * 		The first error thrown by the <code>ICommand</code>s, even when the
+	 * 		<code>IErrorPolicy</code> isolated it.
+	 */
+	getCommandResult( notification:INotification ):unknown;
+
+	/**
+	 * Check if the <code>ICommand</code>s registered for an <code>INotification</code> were
+	 * executed to an outcome, a value or an error.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> sent.
+	 *
+	 * @return
+	 * 		Whether the <code>ICommand</code>s ran, not when the <code>INotification</code> did
+	 * 		not reach them or their execution was skipped or replaced.
+	 */
+	hasCommandResult( notification:INotification ):boolean;
+
+	/**
+	 * Set the <code>IClock</code> timing the command timeouts and retries.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	setClock( clock:IClock ):void;
+
+	/**
+	 * Get the <code>IClock</code> timing the command timeouts and retries.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	getClock():IClock;
+
+	/**
+	 * Set the <code>RandomSource</code> of the jitter of the command retries.
+	 *
+	 * @param random
+	 * 		The <code>RandomSource</code> to use, a predictable one in tests.
+	 */
+	setRandom( random:RandomSource ):void;
+
+	/**
+	 * Get the <code>RandomSource</code> of the jitter of the command retries.
+	 *
+	 * @return
+	 * 		The <code>RandomSource</code> in use.
 	 */
-	removeCommand( notificationName:string ):void;
+	getRandom():RandomSource;
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { INotification } from "./INotification";
+
+/**
+ * The report of an error thrown while an <code>INotification</code> was being handled.
+ *
+ * The body of the <code>View.OBSERVER_FAILED</code> notifications.
+ */
+export interface IObserverFailure
+{
+	/**
+	 * What failed: the notification context of the <code>IObserver</code>, such as an
+	 * <code>IMediator</code>, or the constructor of the <code>ICommand</code>.
+	 */
+	readonly actor:unknown;
+
+	/**
+	 * The <code>INotification</code> being handled.
+	 */
+	readonly notification:INotification;
+
+	/**
+	 * The thrown error.
+	 */
+	readonly error:unknown;
+
+	/**
+	 * The stack of the error, when it is an <code>Error</code>.
+	 */
+	readonly stack?:string;
+}
+
+/**
+ * How the errors thrown by <code>IObserver</code>s and <code>ICommand</code>s are handled in
+ * a core.
+ *
+ * Errors are always reported, to the <code>handler</code> and as a
+ * <code>View.OBSERVER_FAILED</code> notification. Cancellations are not errors and are never
+ * reported.
+ */
+export interface IErrorPolicy
+{
+	/**
+	 * Keep notifying the remaining <code>IObserver</code>s, and executing the remaining
+	 * <code>ICommand</code>s of a notification, after one throws. By default the error
+	 * rejects the sending of the notification right away.
+	 */
+	readonly isolate?:boolean;
+
+	/**
+	 * When isolating, still reject the sending of the notification once every
+	 * <code>IObserver</code> has been notified, typically in tests. Several errors are
+	 * rejected as an <code>AggregateError</code>.
+	 */
+	readonly rethrow?:boolean;
+
+	/**
+	 * Called with the report of every error.
+	 */
+	readonly handler?:( failure:IObserverFailure ) => void;
+}
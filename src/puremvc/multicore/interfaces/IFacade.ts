@@ -1,8 +1,20 @@
-import { CommandConstructor } from "./ICommand";
+import { IClock, RandomSource } from "./IClock";
+import { CommandConstructor, CommandLoader } from "./ICommand";
+import { ICommandInterceptor } from "./ICommandInterceptor";
+import { ICommandPolicy } from "./ICommandPolicy";
+import { IContainer } from "./IContainer";
+import { CommandExecutionMode, ICommandConcurrency, ICommandQueueStatus, ICommandRegistration } from "./ICommandRegistration";
+import { IErrorPolicy } from "./IErrorPolicy";
 import { IMediator } from "./IMediator";
-import { INotification } from "./INotification";
+import { INotification, INotificationOptions } from "./INotification";
+import { NotificationInterest } from "./INotificationInterest";
+import { DefaultNotificationMap, NotificationBody, NotificationName, NotificationOf, NotificationResult, NotificationSubscription, NotificationType, SubscribedName } from "./INotificationMap";
+import { INotificationStream, INotificationStreamOptions } from "./INotificationStream";
 import { INotifier } from "./INotifier";
 import { IProxy } from "./IProxy";
+import { ISaga } from "./ISaga";
+import { IScheduler } from "./IScheduler";
+import { IWaitForOptions } from "./IWaitForOptions";
 
 /**
  * The interface definition for a PureMVC Facade.
@@ -14,9 +26,12 @@ import { IProxy } from "./IProxy";
  *
  * In PureMVC, the Facade acts as an interface between the core MVC actors (Model, View,
  * Controller) and the rest of your application.
+ *
+ * The optional <code>MapType</code> notification map types every notification name, body and
+ * type going through the <code>IFacade</code>, see <code>INotificationDescriptor</code>.
  */
-export interface IFacade
-	extends INotifier
+export interface IFacade<MapType = DefaultNotificationMap>
+	extends INotifier<MapType>
 {
 	/**
 	 * Register an <code>ICommand</code> with the <code>IController</code> associating it to a
@@ -24,22 +39,101 @@ export interface IFacade
 	 * 
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to associate the <code>ICommand</code>
-		*		with.
+		*		with, or a <code>NotificationPattern</code> matching their names.
 		*
 		* @param commandClassRef
-		* 		A reference to the constructor of the <code>ICommand</code>.
+		* 		A reference to the constructor of the <code>ICommand</code>, or a
+		* 		<code>CommandLoader</code> called on the first matching notification.
+		*
+		* @param policy
+		* 		The timeout, retry and rate limit policy of this registration, overriding the static
+		* 		<code>policy</code> of the command class.
+		*
+		* @return
+		* 		The handle of this registration, used to remove this <code>ICommand</code> only.
 		*/
-	registerCommand( notificationName:string, commandClassRef:CommandConstructor ):void;
+	registerCommand<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		commandClassRef:CommandConstructor<NotificationOf<MapType, SubscribedName<MapType, NameType>>> | CommandLoader<NotificationOf<MapType, SubscribedName<MapType, NameType>>>, policy?:ICommandPolicy ):ICommandRegistration<NotificationOf<MapType, SubscribedName<MapType, NameType>>>;
 	
 	/**
-	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
-	 * mapping from the <code>Controller</code>.
+	 * Remove all the previously registered <code>ICommand</code> to <code>INotification</code>
+	 * mappings for an <code>INotification</code> name from the <code>Controller</code>.
 	 *
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to remove the <code>ICommand</code>
-		*		mapping for.
+		*		mappings for.
 		*/
-	removeCommand( notificationName:string ): void;
+	removeCommand( notificationName:NotificationSubscription<MapType> ): void;
+
+	/**
+	 * Set how the <code>ICommand</code>s registered with the <code>Controller</code> for an
+	 * <code>INotification</code> name are executed.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param mode
+	 *		<code>sequential</code> (the default) or <code>parallel</code>.
+	 */
+	setExecutionMode( notificationName:NotificationSubscription<MapType>, mode:CommandExecutionMode ):void;
+
+	/**
+	 * Set how the <code>Controller</code> schedules the handlings of successive
+	 * <code>INotification</code>s with a name relative to each other.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param concurrency
+	 *		The concurrency mode, and the function keying the queues.
+	 */
+	setConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType, concurrency:ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ):void;
+
+	/**
+	 * Set the priority of the <code>ICommand</code>s registered with the
+	 * <code>Controller</code> for an <code>INotification</code> name relative to the
+	 * <code>IMediator</code>s and other <code>IObserver</code>s.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param priority
+	 *		Higher priorities are notified first, <code>0</code> by default.
+	 */
+	setCommandPriority( notificationName:NotificationSubscription<MapType>, priority:number ):void;
+
+	/**
+	 * Get the state of the <code>Controller</code> queues of an <code>INotification</code>
+	 * name.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 *		One status per key with notifications being handled or waiting.
+	 */
+	getQueueStatus( notificationName:NotificationSubscription<MapType> ):ICommandQueueStatus[];
+
+	/**
+	 * Add an <code>ICommandInterceptor</code> to the <code>Controller</code>, wrapping the
+	 * execution of every <code>ICommand</code> of the core.
+	 *
+	 * @param interceptor
+	 *		The <code>ICommandInterceptor</code> to add.
+	 */
+	addCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code> from the
+	 * <code>Controller</code>.
+	 *
+	 * @param interceptor
+	 *		The <code>ICommandInterceptor</code> to remove.
+	 *
+	 * @return
+	 *		The interceptor was added and has been removed.
+	 */
+	removeCommandInterceptor( interceptor:ICommandInterceptor ):boolean;
 
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
@@ -52,7 +146,7 @@ export interface IFacade
 	 * 		A <code>Command</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 		*/
-	hasCommand( notificationName:string ):boolean;
+	hasCommand( notificationName:NotificationSubscription<MapType> ):boolean;
 
 	/**
 	 * Register an <code>IProxy</code> with the <code>Model</code> by name.
@@ -102,7 +196,7 @@ export interface IFacade
 	 * @param mediator
 			A reference to the <code>IMediator</code>.
 		*/
-	registerMediator( mediator:IMediator ):void;
+	registerMediator( mediator:IMediator<MapType> ):void;
 
 	/**
 	 * Retrieve an <code>IMediator</code> from the <code>IView</code>.
@@ -139,6 +233,78 @@ export interface IFacade
 		*/
 	hasMediator( mediatorName:string ):boolean;
 
+	/**
+	 * Register an <code>IMediator</code> for one more interest.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param interest
+	 * 		A notification name or <code>NotificationPattern</code>, or an
+	 * 		<code>INotificationInterest</code> with the options of the subscription.
+	 *
+	 * @return
+	 * 		The interest is registered, it is not if the <code>IMediator</code> is not or
+	 * 		already is for this name.
+	 */
+	addMediatorInterest( mediatorName:string, interest:NotificationInterest<MapType> ):boolean;
+
+	/**
+	 * Stop notifying an <code>IMediator</code> for one of its interests.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param notificationName
+	 * 		The notification name or <code>NotificationPattern</code> of the interest.
+	 *
+	 * @return
+	 * 		The interest was registered, and is removed.
+	 */
+	removeMediatorInterest( mediatorName:string, notificationName:NotificationSubscription<MapType> ):boolean;
+
+	/**
+	 * Register an <code>ISaga</code> with the <code>IView</code>.
+	 *
+	 * @param saga
+	 *		A reference to the <code>ISaga</code>.
+	 */
+	registerSaga( saga:ISaga<any, MapType> ):void;
+
+	/**
+	 * Retrieve an <code>ISaga</code> from the <code>IView</code>.
+	 *
+	 * @param sagaName
+	 * 		The name of the registered <code>ISaga</code> to retrieve.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> previously registered with the given <code>sagaName</code>.
+	 */
+	retrieveSaga( sagaName:string ):ISaga | undefined;
+
+	/**
+	 * Remove an <code>ISaga</code> from the <code>IView</code>, completing its running
+	 * instances.
+	 *
+	 * @param sagaName
+	 * 		Name of the <code>ISaga</code> to be removed.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> that was removed from the <code>IView</code>.
+	 */
+	removeSaga( sagaName:string ):ISaga | undefined;
+
+	/**
+	 * Check if an <code>ISaga</code> is registered or not.
+	 *
+	 * @param sagaName
+	 * 		The name of the <code>ISaga</code> to verify the existence of a registration for.
+	 *
+	 * @return
+	 * 		An <code>ISaga</code> is registered with the given <code>sagaName</code>.
+	 */
+	hasSaga( sagaName:string ):boolean;
+
 	/**
 	 * Notify the <code>IObservers</code> for a particular <code>INotification</code>.
 	 *
@@ -153,4 +319,151 @@ export interface IFacade
 	 *		<code>IObserver</code>s	of.
 		*/
 	notifyObservers( notification:INotification ): Promise<void>;
+
+	/**
+	 * Send an <code>INotification</code> and get the value the <code>ICommand</code> mapped to
+	 * it resolved with, the one of the last registered when there are several.
+	 *
+	 * @param name
+	 *		The name of the notification to send.
+	 *
+	 * @param body
+	 *		The body of the notification (optional).
+	 *
+	 * @param type
+	 *		The type of the notification (optional).
+	 *
+	 * @param options
+	 *		The options of the notification (optional).
+	 *
+	 * @return
+	 * 		A promise for the result, rejected if no <code>ICommand</code> handled the
+	 * 		notification, because none is registered, an <code>IObserver</code> stopped its
+	 * 		propagation, the concurrency mode skipped or replaced the execution or the rate
+	 * 		limit left it to a trailing run, if it is cancelled with <code>preventDefault</code>
+	 * 		or if handling it throws.
+	 */
+	request<NameType extends NotificationName<MapType>>( name:NameType, body?:NotificationBody<MapType, NameType>,
+		type?:NotificationType<MapType, NameType>, options?:INotificationOptions ): Promise<NotificationResult<MapType, NameType>>;
+
+	/**
+	 * Call a handler for the next <code>INotification</code> with a name, and only for that
+	 * one.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>, or a <code>NotificationPattern</code>.
+	 *
+	 * @param handler
+	 *		The function to call with the <code>INotification</code>.
+	 *
+	 * @return
+	 *		A function removing the handler if it has not been called yet.
+	 */
+	once<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		handler:( notification:NotificationOf<MapType, SubscribedName<MapType, NameType>> ) => void | Promise<void> ):() => void;
+
+	/**
+	 * Wait for the next <code>INotification</code> with a name.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>, or a <code>NotificationPattern</code>.
+	 *
+	 * @param options
+	 *		The predicate the <code>INotification</code> must match, the timeout and the
+	 *		<code>AbortSignal</code> of the wait (optional).
+	 *
+	 * @return
+	 *		A promise for the <code>INotification</code>, rejected when the timeout elapses,
+	 *		when the <code>signal</code> is aborted, with its reason, when the core is
+	 *		removed, or with the error thrown by the <code>predicate</code>.
+	 */
+	waitFor<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		options?:IWaitForOptions<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ): Promise<NotificationOf<MapType, SubscribedName<MapType, NameType>>>;
+
+	/**
+	 * Get a stream of the <code>INotification</code>s with some names, to consume with
+	 * <code>for await</code> or as an interop Observable.
+	 *
+	 * @param notificationNames
+	 *		The names of the <code>INotification</code>s, or <code>NotificationPattern</code>s.
+	 *
+	 * @param options
+	 *		The filter, buffering and <code>AbortSignal</code> of the stream (optional).
+	 *
+	 * @return
+	 *		The stream, completed when the core is removed.
+	 */
+	stream<NameType extends NotificationSubscription<MapType>>( notificationNames:NameType | NameType[],
+		options?:INotificationStreamOptions<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ): INotificationStream<NotificationOf<MapType, SubscribedName<MapType, NameType>>>;
+
+	/**
+	 * Get the <code>AbortSignal</code> of this core.
+	 *
+	 * It is aborted when the core is removed, cancelling every notification sent through
+	 * <code>sendNotification</code> still being handled.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code> of this core.
+	 */
+	getSignal():AbortSignal;
+
+	/**
+	 * Set the <code>IClock</code> of this core, timing its delays and timeouts.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	setClock( clock:IClock ):void;
+
+	/**
+	 * Get the <code>IClock</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	getClock():IClock;
+
+	/**
+	 * Set the <code>RandomSource</code> of this core, drawing the random parts of its delays.
+	 *
+	 * @param random
+	 * 		The <code>RandomSource</code> to use, a predictable one in tests.
+	 */
+	setRandom( random:RandomSource ):void;
+
+	/**
+	 * Get the <code>RandomSource</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>RandomSource</code> in use.
+	 */
+	getRandom():RandomSource;
+
+	/**
+	 * Set how the errors thrown by the <code>IMediator</code>s, <code>ICommand</code>s and
+	 * other <code>IObserver</code>s of this core are handled.
+	 *
+	 * @param policy
+	 * 		Whether to isolate the errors, the handler of their reports, and whether to
+	 * 		rethrow them once every observer is notified, in tests.
+	 */
+	setErrorPolicy( policy:IErrorPolicy ):void;
+
+	/**
+	 * Get the <code>IContainer</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IContainer</code> injecting the dependencies of the commands, proxies and
+	 * 		mediators of this core.
+	 */
+	getContainer():IContainer;
+
+	/**
+	 * Get the <code>IScheduler</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IScheduler</code> sending the delayed, recurring and cron notifications of
+	 * 		this core.
+	 */
+	getScheduler():IScheduler<MapType>;
 }
\ No newline at end of file
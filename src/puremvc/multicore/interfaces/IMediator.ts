@@ -1,4 +1,5 @@
-import { INotification } from "./INotification";
+import { NotificationInterest } from "./INotificationInterest";
+import { DefaultNotificationMap, NotificationOf } from "./INotificationMap";
 import { INotifier } from "./INotifier";
 
 /**
@@ -30,9 +31,12 @@ import { INotifier } from "./INotifier";
  * encapsulating that <code>IMediator</code>'s (<code>handleNotification</code>) method
  * and register it as an Observer for each <code>INotification</code> name returned by 
  * <code>listNotificationInterests</code>.
+ *
+ * The optional <code>MapType</code> notification map restricts the interests to known names
+ * and types the notifications given to <code>handleNotification</code>.
  */
-export interface IMediator
-	extends INotifier
+export interface IMediator<MapType = DefaultNotificationMap>
+	extends INotifier<MapType>
 {
 	/**
 	 * Get the <code>IMediator</code> instance name
@@ -72,10 +76,16 @@ export interface IMediator
 	 * List the <code>INotification</code> names this <code>IMediator</code> is interested in
 	 * being notified of.
 	 *
+	 * A name may be given as an <code>INotificationInterest</code> to debounce or throttle
+	 * <code>handleNotification</code> for it, or to be notified before or after the other
+	 * observers with a <code>priority</code>. It may also be replaced by a
+	 * <code>NotificationPattern</code> such as <code>user/*</code> to be notified of every
+	 * matching name.
+	 *
 	 * @return
 	 * 		The list of notifications names in which is interested the <code>Mediator</code>.
 	 */
-	listNotificationInterests( ):string[];
+	listNotificationInterests( ):NotificationInterest<MapType>[];
 	
 	/**
 	 * Handle <code>INotification</code>s.
@@ -84,10 +94,13 @@ export interface IMediator
 	 * Typically this will be handled in a switch statement, with one 'case' entry per
 	 * <code>INotification</code> the <code>Mediator</code> is interested in.
 	 *
+	 * Long running handling should watch the <code>AbortSignal</code> of the
+	 * <code>INotification</code>, see <code>getSignal</code>.
+	 *
 	 * @param notification
 	 * 		The notification instance to be handled.
 	 */ 
-	handleNotification( notification:INotification ): Promise<void>;
+	handleNotification( notification:NotificationOf<MapType> ): Promise<void>;
 	
 	/**
 	 * Called by the View when the Mediator is registered. This method has to be overridden
@@ -21,8 +21,12 @@
  * <code>Event</code>, while PureMVC <code>INotification</code>s follow a 'Publish/Subscribe'
  * pattern. PureMVC classes need not be related to each other in a parent/child relationship in
  * order to communicate with one another using <code>INotification</code>s.
+ *
+ * The type parameters describe the body, the type strings and the name of the notification.
+ * They all default to their untyped form, see <code>INotificationDescriptor</code> for how
+ * they are derived from a notification map.
  */
-export interface INotification
+export interface INotification<BodyType = any, TypeType extends string = string, NameType extends string = string>
 {
 	/**
 	 * Get the name of the <code>Notification</code> instance.
@@ -30,7 +34,7 @@ export interface INotification
 	 * @return
 	 *		The name of the <code>Notification</code> instance.
 		*/
-	getName():string;
+	getName():NameType;
 
 	/**
 	 * Set the body of the <code>INotification</code>.
@@ -38,7 +42,7 @@ export interface INotification
 	 * @param body
 	 * 		The body of the notification instance.
 	 */
-	setBody( body:any ):void;
+	setBody( body:BodyType ):void;
 
 	/**
 	 * Get the body of the <code>INotification</code>.
@@ -46,7 +50,7 @@ export interface INotification
 	 * @return
 	 *		The body object of the <code>INotification</code>.
 		*/
-	getBody():any;
+	getBody():BodyType;
 
 	/**
 	 * Set the type of the <code>INotification</code>.
@@ -54,7 +58,7 @@ export interface INotification
 	 * @param type
 	 * 		The type identifier for the notification.
 	 */
-	setType( type:string ):void;
+	setType( type:TypeType ):void;
 
 	/**
 	 * Get the type of the <code>INotification</code>.
@@ -62,7 +66,50 @@ export interface INotification
 	 * @return
 	 *		The type of the <code>INotification</code>.
 		*/
-	getType():string | undefined;
+	getType():TypeType | undefined;
+
+	/**
+	 * Get the <code>AbortSignal</code> cancelling the handling of the
+	 * <code>INotification</code>.
+	 *
+	 * Long running handlers should pass it on to their asynchronous work, or check it.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code>, if the <code>INotification</code> can be cancelled.
+	 */
+	getSignal():AbortSignal | undefined;
+
+	/**
+	 * Stop notifying the <code>IObserver</code>s of the <code>INotification</code>, those
+	 * after the current one are skipped.
+	 */
+	stopPropagation():void;
+
+	/**
+	 * Check if <code>stopPropagation</code> was called.
+	 *
+	 * @return
+	 * 		The remaining <code>IObserver</code>s are not notified.
+	 */
+	isPropagationStopped():boolean;
+
+	/**
+	 * Cancel the default handling of the <code>INotification</code>: the
+	 * <code>ICommand</code>s registered for it are not executed, the other
+	 * <code>IObserver</code>s are still notified.
+	 *
+	 * Called by a higher priority <code>IObserver</code>, such as a guard vetoing a
+	 * navigation, before the <code>Controller</code> is notified.
+	 */
+	preventDefault():void;
+
+	/**
+	 * Check if <code>preventDefault</code> was called.
+	 *
+	 * @return
+	 * 		The <code>INotification</code> is cancelled.
+	 */
+	isDefaultPrevented():boolean;
 
 	/**
 	 * Get a textual representation of the <code>Notification</code> instance.
@@ -71,4 +118,15 @@ export interface INotification
 	 * 		The textual representation of the <code>Notification</code>	instance.
 	 */
 	toString():string;
+}
+
+/**
+ * Options of <code>sendNotification</code>.
+ */
+export interface INotificationOptions
+{
+	/**
+	 * Cancels the handling of the notification when aborted.
+	 */
+	readonly signal?:AbortSignal;
 }
\ No newline at end of file
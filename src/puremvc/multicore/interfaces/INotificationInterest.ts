@@ -0,0 +1,34 @@
+import { DefaultNotificationMap, NotificationSubscription } from "./INotificationMap";
+import { IRateLimit } from "./IRateLimit";
+
+/**
+ * An interest of an <code>IMediator</code> in a notification name, with the options of its
+ * subscription.
+ */
+export interface INotificationInterest<NameType extends string = string>
+{
+	/**
+	 * The name of the notifications, or a <code>NotificationPattern</code> matching them.
+	 */
+	readonly name:NameType;
+
+	/**
+	 * How often <code>handleNotification</code> is called during a burst of these
+	 * notifications, timed by the <code>IClock</code> of the core. Called for every
+	 * notification when omitted.
+	 */
+	readonly rateLimit?:IRateLimit;
+
+	/**
+	 * The priority of the subscription, higher ones are notified first. <code>0</code> when
+	 * omitted.
+	 */
+	readonly priority?:number;
+}
+
+/**
+ * An entry of <code>IMediator.listNotificationInterests</code>: a notification name or
+ * <code>NotificationPattern</code>, or an <code>INotificationInterest</code> when the
+ * subscription has options.
+ */
+export type NotificationInterest<MapType = DefaultNotificationMap> = NotificationSubscription<MapType> | INotificationInterest<NotificationSubscription<MapType>>;
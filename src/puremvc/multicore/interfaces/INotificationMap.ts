@@ -0,0 +1,117 @@
+import { INotification, INotificationOptions } from "./INotification";
+
+/**
+ * The shape of a single entry of a notification map.
+ *
+ * A notification map is an interface whose keys are notification names and whose values
+ * describe the <code>body</code> carried by the notification and the union of
+ * <code>type</code> strings it may be sent with, like this:
+ *
+ * <pre>
+ *		interface AppNotifications
+ *		{
+ *			STARTUP:		{ body: HTMLElement };
+ *			USER_SAVED:		{ body: UserVO, type: "created" | "updated" };
+ *			LOAD_USER:		{ body: string, result: UserVO };
+ *			LOGOUT:			{ };
+ *		}
+ * </pre>
+ *
+ * Passing such a map as the type argument of <code>Facade</code>, <code>Notifier</code>,
+ * <code>Mediator</code>, <code>Proxy</code> or <code>SimpleCommand</code> turns unknown
+ * notification names and mismatched bodies or types into compile errors. The optional
+ * <code>result</code> types what <code>IFacade.request</code> resolves with.
+ */
+export interface INotificationDescriptor<BodyType = any, TypeType extends string = string, ResultType = any>
+{
+	body?: BodyType;
+	type?: TypeType;
+	result?: ResultType;
+}
+
+/**
+ * The notification map used when none is given: any name, any body and any type string.
+ *
+ * Keeps untyped, string based code compiling exactly as before.
+ */
+export type DefaultNotificationMap = Record<string, INotificationDescriptor>;
+
+/**
+ * The union of notification names declared by a notification map.
+ */
+export type NotificationName<MapType> = Extract<keyof MapType, string>;
+
+/**
+ * The body type declared for the notification <code>NameType</code> of a notification map.
+ */
+export type NotificationBody<MapType, NameType extends keyof MapType> =
+	MapType[NameType] extends { body?: infer BodyType } ? BodyType : unknown;
+
+/**
+ * The union of type strings declared for the notification <code>NameType</code> of a
+ * notification map.
+ */
+export type NotificationType<MapType, NameType extends keyof MapType> =
+	MapType[NameType] extends { type?: infer TypeType }
+		? (TypeType extends string ? TypeType : string)
+		: string;
+
+/**
+ * The value the <code>ICommand</code>s handling the notification <code>NameType</code> of a
+ * notification map resolve with.
+ */
+export type NotificationResult<MapType, NameType extends keyof MapType> =
+	MapType[NameType] extends { result?: infer ResultType } ? ResultType : unknown;
+
+/**
+ * The arguments of <code>sendNotification</code> for a notification map: a name followed by
+ * its optional body, type and <code>INotificationOptions</code>.
+ */
+export type NotificationArgs<MapType> =
+{
+	[Name in NotificationName<MapType>]: [name:Name, body?:NotificationBody<MapType, Name>, type?:NotificationType<MapType, Name>, options?:INotificationOptions];
+}[NotificationName<MapType>];
+
+/**
+ * The <code>INotification</code> received for the notification names <code>NameType</code> of
+ * a notification map.
+ *
+ * When several names are given this is a union discriminated on <code>getName()</code>, so a
+ * <code>switch</code> on the name narrows the body in each <code>case</code>.
+ */
+export type NotificationOf<MapType, NameType extends NotificationName<MapType> = NotificationName<MapType>> =
+{
+	[Name in NameType]: INotification<NotificationBody<MapType, Name>, NotificationType<MapType, Name>, Name>;
+}[NameType];
+
+/**
+ * A wildcard subscription to hierarchical notification names, whose segments are separated
+ * by <code>/</code>: <code>*</code> stands for exactly one segment and <code>**</code> for one
+ * or more, so <code>user/*</code> matches <code>user/login</code> and <code>user/**</code>
+ * also matches <code>user/login/success</code>.
+ */
+export type NotificationPattern = `${string}*${string}`;
+
+/**
+ * What observers and <code>ICommand</code>s can be registered for: a notification name of a
+ * notification map, or a <code>NotificationPattern</code>.
+ */
+export type NotificationSubscription<MapType> = NotificationName<MapType> | NotificationPattern;
+
+/**
+ * The notification names of a notification map received through the subscription
+ * <code>NameType</code>.
+ *
+ * A pattern ending with <code>/*</code> or <code>/**</code> narrows to the names under its
+ * prefix, any other pattern receives every name of the map.
+ */
+export type SubscribedName<MapType, NameType extends string> =
+	NameType extends NotificationPattern
+		? string extends NotificationName<MapType>
+			? NotificationName<MapType>
+			: NameType extends `${infer Prefix}/*` | `${infer Prefix}/**`
+				? Prefix extends NotificationPattern
+					? NotificationName<MapType>
+					: Extract<NotificationName<MapType>, `${Prefix}/${string}`>
+				: NotificationName<MapType>
+		: Extract<NameType, NotificationName<MapType>>;
@@ -0,0 +1,104 @@
+import { INotification } from "./INotification";
+
+/**
+ * What a <code>NotificationStream</code> iterator does when a notification arrives while its
+ * buffer is full:
+ * <UL>
+ * <LI><code>drop-oldest</code> discards the oldest buffered notification to make room.
+ * <LI><code>drop-newest</code> discards the arriving notification.
+ * <LI><code>error</code> ends the iteration with an error once the buffer is consumed.
+ */
+export type StreamOverflowPolicy = "drop-oldest" | "drop-newest" | "error";
+
+/**
+ * Options of <code>IFacade.stream</code>.
+ */
+export interface INotificationStreamOptions<NotificationType extends INotification = INotification>
+{
+	/**
+	 * Only the notifications this returns <code>true</code> for are streamed. An error it
+	 * throws does not reach the sender of the notification, it ends the stream with that error.
+	 */
+	readonly filter?:( notification:NotificationType ) => boolean;
+
+	/**
+	 * How many notifications an iterator keeps while its consumer is busy,
+	 * <code>NotificationStream.BUFFER_SIZE</code> by default. Observable subscribers are
+	 * called synchronously and are not buffered.
+	 */
+	readonly bufferSize?:number;
+
+	/**
+	 * What an iterator does when its buffer is full, <code>drop-oldest</code> by default.
+	 */
+	readonly overflow?:StreamOverflowPolicy;
+
+	/**
+	 * Ends the stream with its reason as error when aborted.
+	 */
+	readonly signal?:AbortSignal;
+}
+
+/**
+ * The callbacks of a subscriber to an <code>INotificationStream</code>, following the
+ * Observable interop protocol.
+ */
+export interface IStreamObserver<NotificationType extends INotification = INotification>
+{
+	/**
+	 * Called with each notification.
+	 */
+	next?( notification:NotificationType ):void;
+
+	/**
+	 * Called when the <code>signal</code> of the stream is aborted, with its reason, or when
+	 * <code>next</code> or the <code>filter</code> throws, with its error. The subscription
+	 * then ends.
+	 */
+	error?( error:unknown ):void;
+
+	/**
+	 * Called when the core of the stream is removed.
+	 */
+	complete?():void;
+}
+
+/**
+ * The subscription of an <code>IStreamObserver</code> to an <code>INotificationStream</code>.
+ */
+export interface IStreamSubscription
+{
+	/**
+	 * Whether the subscription has ended, by <code>unsubscribe</code> or with the stream.
+	 */
+	readonly closed:boolean;
+
+	/**
+	 * Stop receiving the notifications and remove the observers of the subscription.
+	 */
+	unsubscribe():void;
+}
+
+/**
+ * A stream of the notifications of a core, consumed with <code>for await</code> or as an
+ * interop Observable.
+ *
+ * Each iteration and each subscription registers observers of its own with the
+ * <code>IView</code>, removed when it ends: on <code>break</code> or <code>return</code>, on
+ * <code>unsubscribe</code>, when the <code>signal</code> is aborted or when the core is
+ * removed.
+ */
+export interface INotificationStream<NotificationType extends INotification = INotification>
+	extends AsyncIterable<NotificationType>
+{
+	/**
+	 * Subscribe to the notifications of the stream.
+	 *
+	 * @param observer
+	 * 		The <code>IStreamObserver</code>, or the function called with each notification.
+	 *
+	 * @return
+	 * 		The subscription.
+	 */
+	subscribe( observer:IStreamObserver<NotificationType> | (( notification:NotificationType ) => void) ):IStreamSubscription;
+}
@@ -1,3 +1,5 @@
+import { DefaultNotificationMap, NotificationArgs } from "./INotificationMap";
+
 /**
  * The interface definition for a PureMVC <code>Notifier</code>.
  *
@@ -13,8 +15,11 @@
  * the convenience method <code>sendNotification</code>	for sending <code>Notifications</code>,
  * but it also eases implementation as these classes have frequent <code>Facade</code>
  * interactions and usually require access to the facade anyway.
+ *
+ * The optional <code>MapType</code> notification map restricts the names, bodies and types
+ * that may be sent.
  */
-export interface INotifier
+export interface INotifier<MapType = DefaultNotificationMap>
 {
 	/**
 	 * Create and send a <code>Notification</code>.
@@ -22,16 +27,19 @@ export interface INotifier
 	 * Keeps us from having to construct new <code>Notification</code> instances in our
 	 * implementation code.
 	 * 
-	 * @param name
-	 * 		The name of the notification to send.
+	 * The arguments are the name of the notification to send followed by its optional body and
+	 * type, restricted by the notification map, and its optional <code>INotificationOptions</code>.
 	 * 
-	 * @param body
-	 * 		The body of the notification (optional).
+	 * @param args
+	 * 		The name, body (optional), type (optional) and options (optional) of the
+	 * 		notification to send.
 	 *
-	 * @param type
-	 * 		The type of the notification (optional).
+	 * @return
+	 * 		A promise for whether an <code>IObserver</code> cancelled the notification with
+	 * 		<code>preventDefault</code>. Typed to allow <code>void</code> as well, so the
+	 * 		overrides written before notifications could be cancelled still compile.
 	 */
-	sendNotification( name:string, body?:any, type?:string ): Promise<void>;
+	sendNotification( ...args:NotificationArgs<MapType> ): Promise<boolean | void>;
 
 	/**
 	 * Initialize this INotifier instance.
@@ -35,8 +35,23 @@ export interface IObserver
 	 * 		The notification (callback) method of the interested object.
 	 */
 	setNotifyMethod( notifyMethod:Function ):void;
+
+	/**
+	 * Get the notification method.
+	 *
+	 * @return
+	 * 		The notification (callback) method of the interested object.
+	 */
+	getNotifyMethod():Function | undefined;
 	
 	/**
+	 * Get the notification context.
+	 * 
+	 * @return
+	 * 		The notification context (<code>this</code>) of the interested object.
+	 */
+	getNotifyContext():any;
+
 	/**
 	 * Set the notification context.
 	 * 
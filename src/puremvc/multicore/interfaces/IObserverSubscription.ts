@@ -0,0 +1,39 @@
+import { IObserver } from "./IObserver";
+
+/**
+ * What <code>IView.registerObserver</code> does when the <code>IObserver</code>, or one with
+ * the same notification method and context, is already registered for the notification name:
+ * <UL>
+ * <LI><code>allow</code> registers it again, it is notified twice.
+ * <LI><code>ignore</code> keeps the registered one.
+ * <LI><code>replace</code> removes the registered one and registers the new one.
+ * <LI><code>error</code> throws.
+ */
+export type DuplicateObserverPolicy = "allow" | "ignore" | "replace" | "error";
+
+/**
+ * The registration of an <code>IObserver</code> with the <code>IView</code> for a
+ * notification name or <code>NotificationPattern</code>.
+ *
+ * Returned by <code>IView.registerObserver</code>, it is the handle removing this
+ * registration only with <code>IView.removeSubscription</code>.
+ */
+export interface IObserverSubscription
+{
+	/**
+	 * The notification name or <code>NotificationPattern</code> the <code>IObserver</code> is
+	 * registered for.
+	 */
+	readonly notificationName:string;
+
+	/**
+	 * The registered <code>IObserver</code>.
+	 */
+	readonly observer:IObserver;
+
+	/**
+	 * The priority of the <code>IObserver</code>, those with a higher priority are notified
+	 * first.
+	 */
+	readonly priority:number;
+}
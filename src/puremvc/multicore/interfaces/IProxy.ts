@@ -1,3 +1,4 @@
+import { DefaultNotificationMap } from "./INotificationMap";
 import { INotifier } from "./INotifier";
 
 /**
@@ -18,8 +19,8 @@ import { INotifier } from "./INotifier";
  * <LI>Encapsulate interaction with local or remote services used to fetch and persist model
  * data.
  */
-export interface IProxy<DataType = unknown>
-	extends INotifier
+export interface IProxy<DataType = unknown, MapType = DefaultNotificationMap>
+	extends INotifier<MapType>
 {
 	/**
 	 * Get the name of the <code>IProxy></code> instance.
@@ -0,0 +1,35 @@
+/**
+ * How often a handler runs during a burst of <code>INotification</code>s, given to
+ * <code>registerCommand</code> through the <code>ICommandPolicy</code> or declared with a
+ * mediator interest.
+ *
+ * Set either <code>debounce</code> or <code>throttle</code>. Only a leading run is waited
+ * for by the sender of its notification. The sending of the other notifications is not held
+ * up: the trailing run handles the last of them later, on its own, and the errors it throws
+ * are reported to the <code>IView</code>. A <code>request</code> whose notification is left
+ * to the trailing run rejects as if no <code>ICommand</code> handled it.
+ */
+export interface IRateLimit
+{
+	/**
+	 * Run once the notifications have stopped arriving for this many milliseconds.
+	 */
+	readonly debounce?:number;
+
+	/**
+	 * Run at most once per this many milliseconds.
+	 */
+	readonly throttle?:number;
+
+	/**
+	 * Run with the first notification of a burst. Defaults to <code>false</code> when
+	 * debouncing and <code>true</code> when throttling.
+	 */
+	readonly leading?:boolean;
+
+	/**
+	 * Run with the last notification of a burst, unless it was the leading one. Defaults to
+	 * <code>true</code>.
+	 */
+	readonly trailing?:boolean;
+}
@@ -0,0 +1,205 @@
+import { INotification } from "./INotification";
+import { DefaultNotificationMap, NotificationName, NotificationOf } from "./INotificationMap";
+import { INotifier } from "./INotifier";
+
+/**
+ * The interface definition for a PureMVC Saga, a process manager coordinating a workflow
+ * spanning several notifications.
+ *
+ * An <code>ISaga</code> is registered with the <code>IView</code> like an
+ * <code>IMediator</code>. Each notification it is interested in is correlated to an
+ * <code>ISagaInstance</code> by its correlation id: the instance is created by a notification
+ * the saga is started by, then receives the notifications with the same id until it
+ * completes.
+ *
+ * The optional <code>MapType</code> notification map restricts the interests to known names
+ * and types the notifications given to <code>handleNotification</code>.
+ */
+export interface ISaga<StateType = any, MapType = DefaultNotificationMap>
+	extends INotifier<MapType>
+{
+	/**
+	 * Get the <code>ISaga</code> instance name.
+	 *
+	 * @return
+	 * 		The <code>ISaga</code> instance name.
+	 */
+	getSagaName():string;
+
+	/**
+	 * List the <code>INotification</code> names this <code>ISaga</code> is interested in.
+	 *
+	 * @return
+	 * 		The notification names, those starting an instance included.
+	 */
+	listNotificationInterests():NotificationName<MapType>[];
+
+	/**
+	 * Tell whether a notification without a running instance starts one.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @return
+	 * 		A new instance is started for its correlation id.
+	 */
+	isStartedBy( notification:NotificationOf<MapType> ):boolean;
+
+	/**
+	 * Get the correlation id of a notification.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @return
+	 * 		The id of the instance it belongs to, <code>undefined</code> to ignore it.
+	 */
+	getCorrelationId( notification:NotificationOf<MapType> ):string | undefined;
+
+	/**
+	 * Handle a notification for one of the instances.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @param instance
+	 * 		The instance it belongs to.
+	 */
+	handleNotification( notification:NotificationOf<MapType>, instance:ISagaInstance<StateType> ): Promise<void>;
+
+	/**
+	 * Handle the expiry of the timeout given to <code>ISagaInstance.expect</code>.
+	 *
+	 * @param instance
+	 * 		The instance that waited too long.
+	 */
+	handleTimeout( instance:ISagaInstance<StateType> ): Promise<void>;
+
+	/**
+	 * Deliver a notification to the instance it belongs to, starting one if needed.
+	 *
+	 * Called by the <code>IView</code>.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 */
+	receive( notification:INotification ): Promise<void>;
+
+	/**
+	 * Retrieve a running instance.
+	 *
+	 * @param id
+	 * 		The correlation id of the instance.
+	 *
+	 * @return
+	 * 		The instance, <code>undefined</code> if none runs with this id.
+	 */
+	retrieveInstance( id:string ):ISagaInstance<StateType> | undefined;
+
+	/**
+	 * List the running instances.
+	 *
+	 * @return
+	 * 		The instances, in start order.
+	 */
+	listInstances():ISagaInstance<StateType>[];
+
+	/**
+	 * Called by the <code>IView</code> when the <code>ISaga</code> is registered.
+	 */
+	onRegister():void;
+
+	/**
+	 * Called by the <code>IView</code> when the <code>ISaga</code> is removed, after its
+	 * instances are completed.
+	 */
+	onRemove():void;
+}
+
+/**
+ * A running instance of an <code>ISaga</code>, for one correlation id.
+ */
+export interface ISagaInstance<StateType = any>
+{
+	/**
+	 * The correlation id of the instance.
+	 */
+	readonly id:string;
+
+	/**
+	 * The time the instance started, on the <code>IClock</code> of the core.
+	 */
+	readonly startedAt:number;
+
+	/**
+	 * Get the state of the workflow.
+	 *
+	 * @return
+	 * 		The state, <code>undefined</code> until set.
+	 */
+	getState():StateType | undefined;
+
+	/**
+	 * Set the state of the workflow.
+	 *
+	 * @param state
+	 * 		The new state.
+	 */
+	setState( state:StateType ):void;
+
+	/**
+	 * Wait for one of some notifications: the others are ignored until one arrives or the
+	 * timeout expires, which calls <code>ISaga.handleTimeout</code>. Replaces the previous
+	 * expectation.
+	 *
+	 * @param notificationNames
+	 * 		The names of the notifications to wait for.
+	 *
+	 * @param timeout
+	 * 		The timeout in milliseconds, no timeout when omitted.
+	 */
+	expect( notificationNames:string[], timeout?:number ):void;
+
+	/**
+	 * Get the names of the notifications the instance waits for.
+	 *
+	 * @return
+	 * 		The names, <code>undefined</code> if it accepts any of the interests of its
+	 * 		<code>ISaga</code>.
+	 */
+	getExpected():string[] | undefined;
+
+	/**
+	 * End the instance: it stops receiving notifications and its timeout is cleared.
+	 */
+	complete():void;
+
+	/**
+	 * Check if the instance has completed.
+	 *
+	 * @return
+	 * 		<code>complete</code> was called.
+	 */
+	isCompleted():boolean;
+}
+
+/**
+ * The body of the <code>Saga.SAGA_FAILED</code> notification.
+ */
+export interface ISagaFailure
+{
+	/**
+	 * The name of the <code>ISaga</code> that failed.
+	 */
+	readonly sagaName:string;
+
+	/**
+	 * The instance whose timeout handling failed.
+	 */
+	readonly instance:ISagaInstance;
+
+	/**
+	 * The reason of the failure.
+	 */
+	readonly error:unknown;
+}
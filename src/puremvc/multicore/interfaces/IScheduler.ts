@@ -0,0 +1,182 @@
+import { IClock } from "./IClock";
+import { DefaultNotificationMap, NotificationBody, NotificationName, NotificationType } from "./INotificationMap";
+
+/**
+ * The interface definition for the scheduler of a core, sending notifications after a delay,
+ * at fixed intervals or on cron expressions.
+ *
+ * Its timers belong to the core: they are cleared when the core is removed.
+ *
+ * The optional <code>MapType</code> notification map restricts the names and bodies of the
+ * scheduled notifications.
+ */
+export interface IScheduler<MapType = DefaultNotificationMap>
+{
+	/**
+	 * Send a notification once, after a delay.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param delay
+	 * 		The delay in milliseconds.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 */
+	scheduleOnce<NameType extends NotificationName<MapType>>( notificationName:NameType, delay:number,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob;
+
+	/**
+	 * Send a notification repeatedly, at a fixed interval.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param interval
+	 * 		The interval in milliseconds, the first notification is sent after one interval.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 */
+	scheduleInterval<NameType extends NotificationName<MapType>>( notificationName:NameType, interval:number,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob;
+
+	/**
+	 * Send a notification at the times matching a cron expression.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param expression
+	 * 		The five fields cron expression: minute, hour, day of month, month and day of week,
+	 * 		in local time.
+	 *
+	 * @param body
+	 * 		The body of the notification (optional).
+	 *
+	 * @param type
+	 * 		The type of the notification (optional).
+	 *
+	 * @return
+	 * 		The scheduled job.
+	 *
+	 * @throws Error
+	 * 		If the expression is invalid.
+	 */
+	scheduleCron<NameType extends NotificationName<MapType>>( notificationName:NameType, expression:string,
+		body?:NotificationBody<MapType, NameType>, type?:NotificationType<MapType, NameType> ):IScheduledJob;
+
+	/**
+	 * Get the jobs not done nor cancelled.
+	 *
+	 * @return
+	 * 		The jobs, in scheduling order.
+	 */
+	getJobs():IScheduledJob[];
+
+	/**
+	 * Cancel every job.
+	 */
+	cancelAll():void;
+
+	/**
+	 * Set the <code>IClock</code> timing the jobs.
+	 *
+	 * Jobs already scheduled keep their timers until paused and resumed.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	setClock( clock:IClock ):void;
+
+	/**
+	 * Get the <code>IClock</code> timing the jobs.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	getClock():IClock;
+}
+
+/**
+ * The state of an <code>IScheduledJob</code>.
+ *
+ * <UL>
+ * <LI><code>scheduled</code>: waiting for its next run.
+ * <LI><code>paused</code>: waiting to be resumed.
+ * <LI><code>done</code>: a job sent once that has run.
+ * <LI><code>cancelled</code>: cancelled, or its core removed.
+ */
+export type ScheduledJobState = "scheduled" | "paused" | "done" | "cancelled";
+
+/**
+ * A notification scheduled with an <code>IScheduler</code>.
+ */
+export interface IScheduledJob
+{
+	/**
+	 * The identifier of the job, unique in its core.
+	 */
+	readonly id:number;
+
+	/**
+	 * The name of the notification sent.
+	 */
+	readonly notificationName:string;
+
+	/**
+	 * The state of the job.
+	 */
+	readonly state:ScheduledJobState;
+
+	/**
+	 * The time of the next run on the <code>IClock</code>, while scheduled.
+	 */
+	readonly nextRun?:number;
+
+	/**
+	 * Stop the timer of the job, keeping the remaining delay of a job sent once or at an
+	 * interval.
+	 */
+	pause():void;
+
+	/**
+	 * Start the timer of a paused job again: after its remaining delay, or at the next time
+	 * matching its cron expression.
+	 */
+	resume():void;
+
+	/**
+	 * Cancel the job.
+	 */
+	cancel():void;
+}
+
+/**
+ * The body of the <code>Scheduler.SCHEDULED_NOTIFICATION_FAILED</code> notification.
+ */
+export interface IScheduledJobFailure
+{
+	/**
+	 * The job whose notification failed.
+	 */
+	readonly job:IScheduledJob;
+
+	/**
+	 * The reason the handling of the notification failed.
+	 */
+	readonly error:unknown;
+}
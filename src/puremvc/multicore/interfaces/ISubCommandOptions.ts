@@ -0,0 +1,21 @@
+import { CommandConstructor } from "./ICommand";
+import { INotification } from "./INotification";
+
+/**
+ * Options of a <i>SubCommand</i> added to a <code>MacroCommand</code>.
+ */
+export interface ISubCommandOptions<NotificationType extends INotification = INotification>
+{
+	/**
+	 * The <i>SubCommand</i>s that must have completed before this one starts. They must have
+	 * been added to the <code>MacroCommand</code> before this one. When one of them does not
+	 * fulfill, this <i>SubCommand</i> is skipped.
+	 */
+	readonly dependsOn?:CommandConstructor<NotificationType> | ReadonlyArray<CommandConstructor<NotificationType>>;
+
+	/**
+	 * Decides from the <code>INotification</code> whether the <i>SubCommand</i> runs. It is
+	 * skipped when the predicate returns <code>false</code>.
+	 */
+	readonly when?:( notification:NotificationType ) => boolean;
+}
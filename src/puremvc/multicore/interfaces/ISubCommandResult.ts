@@ -0,0 +1,78 @@
+import { CommandConstructor } from "./ICommand";
+import { INotification } from "./INotification";
+
+/**
+ * The outcome of one <i>SubCommand</i> of a <code>MacroCommand</code>.
+ */
+export interface ISubCommandResult
+{
+	/**
+	 * The constructor of the <i>SubCommand</i>.
+	 */
+	readonly commandClass:CommandConstructor;
+
+	/**
+	 * The position of the <i>SubCommand</i> in the <code>MacroCommand</code>'s list.
+	 */
+	readonly index:number;
+
+	/**
+	 * Whether the <i>SubCommand</i>'s <code>execute</code> resolved or rejected, or whether
+	 * the <i>SubCommand</i> was skipped by its predicate or a dependency that did not fulfill.
+	 */
+	readonly status:"fulfilled" | "rejected" | "skipped";
+
+	/**
+	 * The value <code>execute</code> resolved with, when fulfilled.
+	 */
+	readonly value?:unknown;
+
+	/**
+	 * A <code>SubCommandError</code> wrapping the reason <code>execute</code> rejected with,
+	 * when rejected.
+	 */
+	readonly error?:unknown;
+}
+
+/**
+ * What a <code>MacroCommand</code> does when one of its <i>SubCommand</i>s fails.
+ *
+ * <UL>
+ * <LI><code>failFast</code>: start no more <i>SubCommand</i>s after the first failure, wait
+ * for those already running, then reject with a <code>MacroCommandError</code>.
+ * <LI><code>continue</code>: run every <i>SubCommand</i>, then reject with a
+ * <code>MacroCommandError</code> naming all the failures.
+ * <LI><code>ignore</code>: run every <i>SubCommand</i> and resolve, the failures are only
+ * reported in the results.
+ */
+export type MacroCommandFailurePolicy = "failFast" | "continue" | "ignore";
+
+/**
+ * The body of the <code>MacroCommand.MACRO_ROLLED_BACK</code> notification, describing the
+ * compensation of a failed or aborted <code>MacroCommand</code>.
+ */
+export interface IMacroRollback
+{
+	/**
+	 * The <code>INotification</code> the <code>MacroCommand</code> was executed with.
+	 */
+	readonly notification:INotification;
+
+	/**
+	 * The <code>MacroCommandError</code> or <code>NotificationAbortError</code> that triggered
+	 * the rollback.
+	 */
+	readonly error:Error;
+
+	/**
+	 * The <i>SubCommand</i>s whose <code>compensate</code> step resolved, in the order they
+	 * were compensated.
+	 */
+	readonly compensated:ReadonlyArray<ISubCommandResult>;
+
+	/**
+	 * The <i>SubCommand</i>s whose <code>compensate</code> step rejected, the
+	 * <code>error</code> of each being the reason. The rollback goes on past them.
+	 */
+	readonly failed:ReadonlyArray<ISubCommandResult>;
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { ICommand } from "./ICommand";
+import { INotification } from "./INotification";
+import { DefaultNotificationMap, NotificationArgs } from "./INotificationMap";
+
+/**
+ * The interface definition for a PureMVC Command that can be undone and redone.
+ *
+ * An <code>IUndoableCommand</code> remembers the <code>INotification</code> it was executed
+ * with, so it can be undone and redone later by the <code>CommandHistory</code> of its core.
+ */
+export interface IUndoableCommand<NotificationType extends INotification = INotification>
+	extends ICommand<NotificationType>
+{
+	/**
+	 * Get the <code>INotification</code> the command was executed with.
+	 *
+	 * @return
+	 * 		The original <code>INotification</code>, <code>undefined</code> until executed.
+	 */
+	getNotification():NotificationType | undefined;
+
+	/**
+	 * Revert the changes made when the command was executed.
+	 */
+	undo(): Promise<void>;
+
+	/**
+	 * Apply again the changes reverted by <code>undo</code>.
+	 */
+	redo(): Promise<void>;
+}
+
+/**
+ * A group of a <code>CommandHistory</code>, recording the <code>IUndoableCommand</code>s
+ * executed for the notifications sent through it as a single step.
+ */
+export interface ICommandGroup<MapType = DefaultNotificationMap>
+{
+	/**
+	 * Create and send a <code>Notification</code>, the <code>IUndoableCommand</code>s it
+	 * executes join the group, as do those executed by the notifications they send.
+	 *
+	 * @param args
+	 * 		The name, body (optional), type (optional) and options (optional) of the
+	 * 		notification to send.
+	 *
+	 * @return
+	 * 		A promise for whether an <code>IObserver</code> cancelled the notification with
+	 * 		<code>preventDefault</code>.
+	 */
+	sendNotification( ...args:NotificationArgs<MapType> ): Promise<boolean>;
+
+	/**
+	 * Add an executed <code>IUndoableCommand</code> to the group.
+	 *
+	 * @param command
+	 * 		The executed <code>IUndoableCommand</code>.
+	 */
+	record( command:IUndoableCommand ): Promise<void>;
+
+	/**
+	 * Close the group, its commands are recorded as a single step if there are any.
+	 *
+	 * The commands recorded into the group once it is closed make steps of their own.
+	 */
+	end(): Promise<void>;
+}
+
+/**
+ * The state of a <code>CommandHistory</code>, sent as the body of its
+ * <code>HISTORY_CHANGED</code> notification.
+ */
+export interface ICommandHistoryState
+{
+	/**
+	 * There is at least one step to undo.
+	 */
+	readonly canUndo:boolean;
+
+	/**
+	 * There is at least one step to redo.
+	 */
+	readonly canRedo:boolean;
+
+	/**
+	 * The number of steps that can be undone.
+	 */
+	readonly undoCount:number;
+
+	/**
+	 * The number of steps that can be redone.
+	 */
+	readonly redoCount:number;
+}
@@ -1,6 +1,12 @@
+import { IAbandonedObserver } from "./IAbandonedObserver";
+import { IClock } from "./IClock";
+import { IErrorPolicy } from "./IErrorPolicy";
 import { IMediator } from "./IMediator";
 import { INotification } from "./INotification";
+import { NotificationInterest } from "./INotificationInterest";
 import { IObserver } from "./IObserver";
+import { DuplicateObserverPolicy, IObserverSubscription } from "./IObserverSubscription";
+import { ISaga } from "./ISaga";
 
 /**
  * The interface definition for a PureMVC view.
@@ -28,12 +34,19 @@ export interface IView
 	 * 
 	 * @param notificationName
 	 * 		The name of the <code>INotifications</code> to notify this <code>IObserver</code>
-	 * 		of.
+	 * 		of, or a <code>NotificationPattern</code> matching their names.
 	 *
 	 * @param observer
 	 * 		The <code>IObserver</code> to register.
+	 *
+	 * @param priority
+	 * 		The <code>IObserver</code>s with a higher priority are notified first, those with
+	 * 		the same priority in registration order. <code>0</code> by default.
+	 *
+	 * @return
+	 * 		The subscription, the handle removing it with <code>removeSubscription</code>.
 	 */
-	registerObserver( notificationName:string, observer:IObserver ):void;
+	registerObserver( notificationName:string, observer:IObserver, priority?:number ):IObserverSubscription | undefined;
 
 	/**
 	 * Remove a list of <code>Observer</code>s for a given <code>notifyContext</code> from an
@@ -43,23 +56,140 @@ export interface IView
 	 * 		Which <code>IObserver</code> list to remove from.
 	 *
 	 * @param notifyContext
-	 * 		Remove the <code>IObserver</code> with this object as its
+	 * 		Remove the <code>IObserver</code>s with this object as their
 	 *		<code>notifyContext</code>.
-		*/
-	removeObserver( notificationName:string, notifyContext:any ):void;
+	 *
+	 * @param notifyMethod
+	 * 		Only remove the <code>IObserver</code>s with this notification method (optional).
+	 *
+	 * @return
+	 * 		The removed subscriptions.
+	 */
+	removeObserver( notificationName:string, notifyContext:any, notifyMethod?:Function ):IObserverSubscription[];
+
+	/**
+	 * Remove the <code>IObserver</code>s with a given <code>notifyContext</code> from every
+	 * <code>IObserver</code> list.
+	 *
+	 * @param notifyContext
+	 * 		Remove the <code>IObserver</code>s with this object as their
+	 *		<code>notifyContext</code>.
+	 *
+	 * @return
+	 * 		The removed subscriptions.
+	 */
+	removeAllObservers( notifyContext:any ):IObserverSubscription[];
+
+	/**
+	 * Remove a subscription returned by <code>registerObserver</code>, and only this one.
+	 *
+	 * @param subscription
+	 * 		The subscription to remove.
+	 *
+	 * @return
+	 * 		The subscription was registered, and is removed.
+	 */
+	removeSubscription( subscription:IObserverSubscription ):boolean;
+
+	/**
+	 * Set what <code>registerObserver</code> does when the <code>IObserver</code>, or one
+	 * with the same notification method and context, is already registered for the name.
+	 *
+	 * @param policy
+	 * 		The <code>DuplicateObserverPolicy</code>, <code>allow</code> by default.
+	 */
+	setDuplicatePolicy( policy:DuplicateObserverPolicy ):void;
+
+	/**
+	 * Get what <code>registerObserver</code> does with a duplicate <code>IObserver</code>.
+	 *
+	 * @return
+	 * 		The <code>DuplicateObserverPolicy</code> in use.
+	 */
+	getDuplicatePolicy():DuplicateObserverPolicy;
+
+	/**
+	 * Report the <code>IObserver</code>s whose notification context looks abandoned, a
+	 * diagnostic for development and tests.
+	 *
+	 * @return
+	 * 		The suspicious subscriptions, with the reason they look abandoned.
+	 */
+	reportAbandonedObservers():IAbandonedObserver[];
+
+	/**
+	 * Get the <code>IObserver</code>s notified of the <code>INotification</code>s with a given
+	 * name, in the order they are notified.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>s.
+	 *
+	 * @return
+	 * 		The <code>IObserver</code>s, empty if none matches.
+	 */
+	getObservers( notificationName:string ):IObserver[];
+
+	/**
+	 * Get the subscriptions of the <code>IObserver</code>s notified of the
+	 * <code>INotification</code>s with a given name, in the order they are notified: by
+	 * decreasing priority, then those of the name itself before those of the matching
+	 * <code>NotificationPattern</code>s, the most specific first, then in registration order.
+	 *
+	 * @param notificationName
+	 * 		The name of the <code>INotification</code>s.
+	 *
+	 * @return
+	 * 		The subscriptions, empty if none matches.
+	 */
+	getSubscriptions( notificationName:string ):IObserverSubscription[];
 
 	/**
 	 * Notify the <code>IObserver</code>s for a particular <code>INotification</code>.
 	 *
 	 * All previously attached <code>IObserver</code>s for this <code>INotification</code>'s
-	 * list are notified and are passed a reference to the <code>INotification</code> in the
-	 * order in which they were registered.
+	 * name and the matching patterns are notified and are passed a reference to the
+	 * <code>INotification</code>, in the order given by <code>getObservers</code>.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to notify <code>IObserver</code>s of.
 	 */
 	notifyObservers( notification:INotification ):void;
 
+	/**
+	 * Report an error thrown while an <code>INotification</code> was being handled, to the
+	 * <code>handler</code> of the <code>IErrorPolicy</code> and as a
+	 * <code>View.OBSERVER_FAILED</code> notification. An error is only reported once.
+	 *
+	 * @param actor
+	 * 		What failed: the notification context of the <code>IObserver</code>, or the
+	 * 		constructor of the <code>ICommand</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param error
+	 * 		The thrown error.
+	 */
+	reportFailure( actor:unknown, notification:INotification, error:unknown ): Promise<void>;
+
+	/**
+	 * Set how the errors thrown by the <code>IObserver</code>s and <code>ICommand</code>s are
+	 * handled.
+	 *
+	 * @param policy
+	 * 		The <code>IErrorPolicy</code> of the core.
+	 */
+	setErrorPolicy( policy:IErrorPolicy ):void;
+
+	/**
+	 * Get how the errors thrown by the <code>IObserver</code>s and <code>ICommand</code>s are
+	 * handled.
+	 *
+	 * @return
+	 * 		The <code>IErrorPolicy</code> of the core, empty unless set.
+	 */
+	getErrorPolicy():IErrorPolicy;
+
 	/**
 	 * Register an <code>IMediator</code> instance with the <code>View</code>.
 	 *
@@ -111,4 +241,105 @@ export interface IView
 	 *		A <code>Mediator</code> is registered with the given <code>mediatorName</code>.
 		*/
 	hasMediator( mediatorName:string ):boolean;
+
+	/**
+	 * Register an <code>IMediator</code> for one more interest.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param interest
+	 * 		A notification name or <code>NotificationPattern</code>, or an
+	 * 		<code>INotificationInterest</code> with the options of the subscription.
+	 *
+	 * @return
+	 * 		The interest is registered, it is not if the <code>IMediator</code> is not or
+	 * 		already is for this name.
+	 */
+	addMediatorInterest( mediatorName:string, interest:NotificationInterest ):boolean;
+
+	/**
+	 * Stop notifying an <code>IMediator</code> for one of its interests.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param notificationName
+	 * 		The notification name or <code>NotificationPattern</code> of the interest.
+	 *
+	 * @return
+	 * 		The interest was registered, and is removed.
+	 */
+	removeMediatorInterest( mediatorName:string, notificationName:string ):boolean;
+
+	/**
+	 * List the interests an <code>IMediator</code> is registered for.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @return
+	 * 		The notification names and <code>NotificationPattern</code>s, in registration
+	 * 		order, empty if the <code>IMediator</code> is not registered.
+	 */
+	listMediatorInterests( mediatorName:string ):string[];
+
+	/**
+	 * Register an <code>ISaga</code> instance with the <code>View</code>, as an
+	 * <code>IObserver</code> of the <code>INotification</code>s it is interested in.
+	 *
+	 * @param saga
+	 * 		A reference to an <code>ISaga</code> implementation instance.
+	 */
+	registerSaga( saga:ISaga ):void;
+
+	/**
+	 * Retrieve an <code>ISaga</code> from the <code>View</code>.
+	 *
+	 * @param sagaName
+	 * 		The name of the <code>ISaga</code> instance to retrieve.
+	 *
+	 * @return
+	 * 		The <code>ISaga</code> registered with the given <code>sagaName</code>, if any.
+	 */
+	retrieveSaga( sagaName:string ):ISaga | undefined;
+
+	/**
+	 * Remove an <code>ISaga</code> from the <code>View</code>, completing its running
+	 * instances.
+	 *
+	 * @param sagaName
+	 * 		Name of the <code>ISaga</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> that was removed, if it was registered.
+	 */
+	removeSaga( sagaName:string ):ISaga | undefined;
+
+	/**
+	 * Check if an <code>ISaga</code> is registered or not.
+	 *
+	 * @param sagaName
+	 * 		The <code>ISaga</code> name to check whether it is registered.
+	 *
+	 * @return
+	 *		An <code>ISaga</code> is registered with the given <code>sagaName</code>.
+	 */
+	hasSaga( sagaName:string ):boolean;
+
+	/**
+	 * Set the <code>IClock</code> timing the rate limited mediator interests.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	setClock( clock:IClock ):void;
+
+	/**
+	 * Get the <code>IClock</code> timing the rate limited mediator interests.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	getClock():IClock;
 }
\ No newline at end of file
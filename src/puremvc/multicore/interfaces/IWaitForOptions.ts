@@ -0,0 +1,24 @@
+import { INotification } from "./INotification";
+
+/**
+ * Options of <code>IFacade.waitFor</code>.
+ */
+export interface IWaitForOptions<NotificationType extends INotification = INotification>
+{
+	/**
+	 * Only a notification this returns <code>true</code> for settles the wait, the others are
+	 * ignored.
+	 */
+	readonly predicate?:( notification:NotificationType ) => boolean;
+
+	/**
+	 * The delay in milliseconds after which the wait rejects, timed by the <code>IClock</code>
+	 * of the core. Waits forever when omitted.
+	 */
+	readonly timeout?:number;
+
+	/**
+	 * Rejects the wait with its reason when aborted.
+	 */
+	readonly signal?:AbortSignal;
+}
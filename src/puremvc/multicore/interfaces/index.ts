@@ -1,10 +1,28 @@
+export * from "./IAbandonedObserver";
+export * from "./IClock";
 export * from "./ICommand";
+export * from "./ICommandInterceptor";
+export * from "./ICommandPolicy";
+export * from "./ICommandRegistration";
+export * from "./IContainer";
 export * from "./IController";
+export * from "./IErrorPolicy";
 export * from "./IFacade";
 export * from "./IMediator";
 export * from "./IModel";
 export * from "./INotification";
+export * from "./INotificationInterest";
+export * from "./INotificationMap";
+export * from "./INotificationStream";
 export * from "./INotifier";
 export * from "./IObserver";
+export * from "./IObserverSubscription";
 export * from "./IProxy";
-export * from "./IView";
\ No newline at end of file
+export * from "./IRateLimit";
+export * from "./ISaga";
+export * from "./IScheduler";
+export * from "./ISubCommandOptions";
+export * from "./ISubCommandResult";
+export * from "./IUndoableCommand";
+export * from "./IView";
+export * from "./IWaitForOptions";
\ No newline at end of file
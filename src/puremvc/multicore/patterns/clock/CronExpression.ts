@@ -0,0 +1,213 @@
+/**
+ * A five fields cron expression: minute, hour, day of month, month and day of week.
+ *
+ * Each field is <code>*</code>, a number, a range <code>a-b</code>, any of these with a step
+ * <code>/n</code>, or a comma separated list of them. Days of week go from 0 (Sunday) to 7
+ * (Sunday again). As in cron, when both the day of month and the day of week are restricted,
+ * a day matching either one matches.
+ *
+ * Times are matched in local time, to the minute.
+ */
+export class CronExpression
+{
+	/**
+	 * The matching minutes, hours, days of month, months and days of week.
+	 */
+	#fields:Set<number>[];
+
+	/**
+	 * Whether the day of month field is <code>*</code>.
+	 */
+	#anyDay:boolean;
+
+	/**
+	 * Whether the day of week field is <code>*</code>.
+	 */
+	#anyWeekday:boolean;
+
+	/**
+	 * The source of the expression.
+	 */
+	#source:string;
+
+	/**
+	 * Constructs a <code>CronExpression</code> instance.
+	 *
+	 * @param expression
+	 * 		The five fields cron expression.
+	 *
+	 * @throws Error
+	 * 		If the expression is invalid.
+	 */
+	constructor( expression:string )
+	{
+		const fields = expression.trim().split(/\s+/);
+
+		if (fields.length !== CronExpression.BOUNDS.length)
+			throw Error( `${CronExpression.PARSE_MSG} ${expression}` );
+
+		this.#source = expression;
+		this.#fields = fields.map((field, index) => CronExpression.parseField(field, index, expression));
+		this.#anyDay = fields[2] === "*";
+		this.#anyWeekday = fields[4] === "*";
+
+		// Sunday is both 0 and 7
+		if (this.#fields[4].delete(7))
+			this.#fields[4].add(0);
+	}
+
+	/**
+	 * Get the first time matching the expression after a given time.
+	 *
+	 * @param after
+	 * 		The time in milliseconds since the epoch.
+	 *
+	 * @return
+	 * 		The first matching minute strictly after <code>after</code>, in milliseconds since
+	 * 		the epoch.
+	 *
+	 * @throws Error
+	 * 		If no time matches within <code>CronExpression.HORIZON</code> years.
+	 */
+	public next( after:number ):number
+	{
+		const [minutes, hours, , months] = this.#fields;
+		const date = new Date(after);
+		const limit = new Date(after).setFullYear(date.getFullYear() + CronExpression.HORIZON);
+
+		date.setSeconds(0, 0);
+		date.setMinutes(date.getMinutes() + 1);
+
+		while (date.getTime() <= limit)
+		{
+			if (!months.has(date.getMonth() + 1))
+			{
+				date.setMonth(date.getMonth() + 1, 1);
+				date.setHours(0, 0);
+			}
+			else if (!this.matchesDay(date))
+			{
+				date.setDate(date.getDate() + 1);
+				date.setHours(0, 0);
+			}
+			else if (!hours.has(date.getHours()))
+			{
+				date.setHours(date.getHours() + 1, 0);
+			}
+			else if (!minutes.has(date.getMinutes()))
+			{
+				date.setMinutes(date.getMinutes() + 1);
+			}
+			else
+			{
+				return date.getTime();
+			}
+		}
+
+		throw Error( `${CronExpression.NEVER_MSG} ${this.#source}` );
+	}
+
+	/**
+	 * Get the source of the expression.
+	 *
+	 * @return
+	 * 		The expression as given.
+	 */
+	public toString():string
+	{
+		return this.#source;
+	}
+
+	/**
+	 * Check the day of month and day of week fields against a date.
+	 *
+	 * @param date
+	 * 		The date to check.
+	 *
+	 * @return
+	 * 		The day matches.
+	 */
+	private matchesDay( date:Date ):boolean
+	{
+		const day = this.#fields[2].has(date.getDate());
+		const weekday = this.#fields[4].has(date.getDay());
+
+		return this.#anyDay || this.#anyWeekday ? day && weekday : day || weekday;
+	}
+
+	/**
+	 * Parse a field of the expression.
+	 *
+	 * @param field
+	 * 		The source of the field.
+	 *
+	 * @param index
+	 * 		The position of the field.
+	 *
+	 * @param expression
+	 * 		The whole expression, for error messages.
+	 *
+	 * @return
+	 * 		The matching values.
+	 */
+	private static parseField( field:string, index:number, expression:string ):Set<number>
+	{
+		const [min, max] = CronExpression.BOUNDS[index];
+		const values = new Set<number>();
+		const toNumber = (value:string):number =>
+		{
+			const number = /^\d+$/.test(value) ? Number(value) : NaN;
+
+			if (!(number >= min && number <= max))
+				throw Error( `${CronExpression.PARSE_MSG} ${expression}` );
+
+			return number;
+		};
+
+		for (const part of field.split(","))
+		{
+			const [range, step] = part.split("/");
+			const [from, to] = range === "*" ? [min, max] : range.split("-").map(toNumber);
+			const last = to ?? (step === undefined ? from : max);
+			const increment = step === undefined ? 1 : Number(step);
+
+			if (!(increment >= 1) || !Number.isInteger(increment) || last < from)
+				throw Error( `${CronExpression.PARSE_MSG} ${expression}` );
+
+			for (let value = from; value <= last; value += increment)
+				values.add(value);
+		}
+
+		return values;
+	}
+
+	/**
+	 * The minimum and maximum values of the fields.
+	 *
+	 * @constant
+	 */
+	private static BOUNDS:[number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+	/**
+	 * The number of years searched for a matching time.
+	 *
+	 * @constant
+	 */
+	static HORIZON:number = 5;
+
+	/**
+	 * Error message used to indicate that an expression is invalid.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static PARSE_MSG:string = "Invalid cron expression";
+
+	/**
+	 * Error message used to indicate that no time matches an expression.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static NEVER_MSG:string = "No time matches cron expression";
+}
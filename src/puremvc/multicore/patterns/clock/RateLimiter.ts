@@ -0,0 +1,142 @@
+import { IClock, IRateLimit } from "../../interfaces";
+
+/**
+ * Debounces or throttles calls to an asynchronous handler according to an
+ * <code>IRateLimit</code>, timed by an <code>IClock</code>.
+ *
+ * A call making a leading run gets its promise. The other calls return right away: the
+ * trailing run, made with the argument of the latest call, runs on its own and passes its
+ * error to the error handler, no caller waits for it.
+ */
+export class RateLimiter<ArgType, ResultType = unknown>
+{
+	/**
+	 * The <code>IClock</code> timing the calls.
+	 */
+	#clock:IClock;
+
+	/**
+	 * The rate limit to enforce.
+	 */
+	#rateLimit:IRateLimit;
+
+	/**
+	 * The handler to run.
+	 */
+	#handler:( arg:ArgType ) => Promise<ResultType>;
+
+	/**
+	 * Called with the error of a trailing run.
+	 */
+	#onError?:( error:unknown, arg:ArgType ) => void;
+
+	/**
+	 * The handle of the timer ending the current burst or throttle window.
+	 */
+	#timer?:unknown;
+
+	/**
+	 * The call waiting for the trailing run.
+	 */
+	#pending?:{ arg:ArgType };
+
+	/**
+	 * Constructs a <code>RateLimiter</code> instance.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> timing the calls.
+	 *
+	 * @param rateLimit
+	 * 		The rate limit to enforce.
+	 *
+	 * @param handler
+	 * 		The handler to run.
+	 *
+	 * @param onError
+	 * 		Called with the error of a trailing run and its argument (optional).
+	 */
+	constructor( clock:IClock, rateLimit:IRateLimit, handler:( arg:ArgType ) => Promise<ResultType>,
+		onError?:( error:unknown, arg:ArgType ) => void )
+	{
+		this.#clock = clock;
+		this.#rateLimit = rateLimit;
+		this.#handler = handler;
+		this.#onError = onError;
+	}
+
+	/**
+	 * Call the handler, subject to the rate limit.
+	 *
+	 * @param arg
+	 * 		The argument of the handler.
+	 *
+	 * @return
+	 * 		The promise of the leading run this call made, <code>undefined</code> if it left
+	 * 		the call to the trailing run or skipped it.
+	 */
+	public call( arg:ArgType ): Promise<ResultType> | undefined
+	{
+		const { debounce, throttle, trailing = true } = this.#rateLimit;
+		const leading = this.#rateLimit.leading ?? throttle !== undefined;
+		const idle = this.#timer === undefined;
+
+		if (debounce !== undefined || idle)
+			this.restart(debounce ?? throttle ?? 0);
+
+		if (idle && leading)
+			return this.#handler(arg);
+
+		if (trailing)
+			this.#pending = { arg };
+
+		return undefined;
+	}
+
+	/**
+	 * Cancel the trailing run and the timer.
+	 */
+	public dispose():void
+	{
+		if (this.#timer !== undefined)
+			this.#clock.clearTimeout(this.#timer);
+
+		this.#timer = undefined;
+		this.#pending = undefined;
+	}
+
+	/**
+	 * Start, or start again, the timer ending the burst or throttle window.
+	 *
+	 * @param wait
+	 * 		The duration in milliseconds.
+	 */
+	private restart( wait:number ):void
+	{
+		if (this.#timer !== undefined)
+			this.#clock.clearTimeout(this.#timer);
+
+		this.#timer = this.#clock.setTimeout(() => this.flush(), wait);
+	}
+
+	/**
+	 * End the burst or throttle window, making the trailing run if a call is waiting for it.
+	 * A trailing run starts a new throttle window.
+	 */
+	private flush():void
+	{
+		const pending = this.#pending;
+
+		this.#timer = undefined;
+		this.#pending = undefined;
+
+		if (!pending)
+			return;
+
+		if (this.#rateLimit.debounce === undefined)
+			this.restart(this.#rateLimit.throttle ?? 0);
+
+		// A promise also catching the handler throwing right away.
+		new Promise<ResultType>((resolve) => resolve(this.#handler(pending.arg)))
+			.catch((error) => this.#onError?.(error, pending.arg));
+	}
+}
@@ -0,0 +1,47 @@
+import { IClock } from "../../interfaces";
+
+/**
+ * The default <code>IClock</code> implementation, using the timers of the platform.
+ */
+export class SystemClock
+	implements IClock
+{
+	/**
+	 * Get the current time.
+	 *
+	 * @return
+	 * 		The current time in milliseconds.
+	 */
+	public now():number
+	{
+		return Date.now();
+	}
+
+	/**
+	 * Call a function once, after a delay.
+	 *
+	 * @param callback
+	 * 		The function to call.
+	 *
+	 * @param delay
+	 * 		The delay in milliseconds.
+	 *
+	 * @return
+	 * 		The handle used to cancel the call with <code>clearTimeout</code>.
+	 */
+	public setTimeout( callback:() => void, delay:number ):unknown
+	{
+		return setTimeout(callback, delay);
+	}
+
+	/**
+	 * Cancel a call scheduled with <code>setTimeout</code>.
+	 *
+	 * @param handle
+	 * 		The handle returned by <code>setTimeout</code>.
+	 */
+	public clearTimeout( handle:unknown ):void
+	{
+		clearTimeout(handle as ReturnType<typeof setTimeout>);
+	}
+}
@@ -0,0 +1,3 @@
+export * from "./CronExpression";
+export * from "./RateLimiter";
+export * from "./SystemClock";
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { CommandConstructor } from "../../interfaces";
+
+/**
+ * The error an <code>ICommand</code> execution rejects with when it exceeds the
+ * <code>timeout</code> of its <code>ICommandPolicy</code>.
+ */
+export class CommandTimeoutError
+	extends Error
+{
+	/**
+	 * The constructor of the <code>ICommand</code> that timed out.
+	 */
+	public readonly commandClass:CommandConstructor;
+
+	/**
+	 * The exceeded timeout in milliseconds.
+	 */
+	public readonly timeout:number;
+
+	/**
+	 * Constructs a <code>CommandTimeoutError</code> instance.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the <code>ICommand</code> that timed out.
+	 *
+	 * @param timeout
+	 * 		The exceeded timeout in milliseconds.
+	 */
+	constructor( commandClass:CommandConstructor, timeout:number )
+	{
+		super(`Command ${commandClass.name || "anonymous"} timed out after ${timeout}ms`);
+
+		this.name = "CommandTimeoutError";
+		this.commandClass = commandClass;
+		this.timeout = timeout;
+	}
+}
@@ -1,5 +1,17 @@
-import { CommandConstructor, ICommand, INotification, INotifier } from "../../interfaces";
-import { Notifier } from "../observer";
+import { CommandConstructor, DefaultNotificationMap, ICommand, ICommandContext, IContainer, IMacroRollback, INotification, INotifier, ISubCommandOptions, ISubCommandResult, MacroCommandFailurePolicy, NotificationName, NotificationOf } from "../../interfaces";
+import { Notification, NotificationAbortError, Notifier } from "../observer";
+import { MacroCommandError } from "./MacroCommandError";
+import { SubCommandError } from "./SubCommandError";
+
+/**
+ * An entry of the <i>SubCommands</i> list, its dependencies resolved to list positions.
+ */
+interface SubCommandEntry<NotificationType extends INotification>
+{
+	commandClass:CommandConstructor<NotificationType>;
+	dependsOn:number[];
+	when?:( notification:NotificationType ) => boolean;
+}
 
 /**
  * A base <code>ICommand</code> implementation that executes other <code>ICommand</code>s.
@@ -15,20 +27,47 @@ import { Notifier } from "../observer";
  * Unlike <code>SimpleCommand</code>, your subclass should not override <code>execute</code>,
  * but instead, should override the <code>initializeMacroCommand</code> method, calling
  * <code>addSubCommand</code> once for each <i>SubCommand</i> to be executed.
+ *
+ * What happens when a <i>SubCommand</i> fails is decided by the failure policy, see
+ * <code>MacroCommandFailurePolicy</code>. Sequential execution defaults to
+ * <code>failFast</code>, parallel execution to <code>ignore</code>. Whatever the policy,
+ * <code>execute</code> resolves with an <code>ISubCommandResult</code> per <i>SubCommand</i>
+ * that ran, and sequentially executed <i>SubCommand</i>s receive the results of the ones
+ * before them in their <code>ICommandContext</code>.
+ *
+ * <i>SubCommand</i>s may depend on others added before them, and be skipped by a predicate on
+ * the notification. They start in list order as soon as their dependencies have completed,
+ * up to the concurrency limit: 1 for sequential execution, unlimited for parallel
+ * execution, unless changed with <code>setConcurrency</code>.
+ *
+ * No more <i>SubCommand</i>s are started once the <code>AbortSignal</code> of the
+ * <code>ICommandContext</code>, or of the notification without one, is aborted,
+ * <code>execute</code> then rejects with a <code>NotificationAbortError</code>.
+ *
+ * When a <code>MacroCommand</code> fails or is aborted, the <i>SubCommand</i>s that completed
+ * and declare a <code>compensate</code> step are compensated, last completed first, then a
+ * <code>MACRO_ROLLED_BACK</code> notification reports what was undone.
+ *
+ * The optional <code>MapType</code> and <code>NameType</code> type parameters have the same
+ * meaning as on <code>SimpleCommand</code>.
  */
-export class MacroCommand
-	extends Notifier
-	implements ICommand, INotifier
+export class MacroCommand<MapType = DefaultNotificationMap, NameType extends NotificationName<MapType> = NotificationName<MapType>>
+	extends Notifier<MapType>
+	implements ICommand<NotificationOf<MapType, NameType>>, INotifier<MapType>
 {
 	/**
 	 * An array of <code>ICommand</code>s.
 	 *
 	 * @protected
 	 */
-	#subCommands: CommandConstructor[];
+	#subCommands: SubCommandEntry<NotificationOf<MapType, NameType>>[];
+
+	#concurrency: number;
+
+	#failurePolicy: MacroCommandFailurePolicy;
+
+	#instances: WeakMap<ISubCommandResult, ICommand<NotificationOf<MapType, NameType>>>;
 
-	#sequentialExecution: boolean;
-	
 	/**
 	 * Constructs a <code>MacroCommand</code> instance.
 	 *
@@ -36,13 +75,22 @@ export class MacroCommand
 	 * <code>initializeMacroCommand</code> method.
 	 *
 	 * If your subclass does define a constructor, be  sure to call <code>super()</code>.
+	 *
+	 * @param sequentialExeuction
+	 * 		Whether the <i>SubCommands</i> run one after the other rather than all at once.
+	 *
+	 * @param failurePolicy
+	 * 		What to do when a <i>SubCommand</i> fails. Defaults to <code>failFast</code> for
+	 * 		sequential execution and <code>ignore</code> for parallel execution.
 	 */
-	constructor(sequentialExeuction: boolean = false)
+	constructor(sequentialExeuction: boolean = false, failurePolicy?: MacroCommandFailurePolicy)
 	{
 		super();
 
-		this.#sequentialExecution = sequentialExeuction;
+		this.#failurePolicy = failurePolicy ?? (sequentialExeuction ? "failFast" : "ignore");
+		this.#concurrency = sequentialExeuction ? 1 : Infinity;
 		this.#subCommands = [];
+		this.#instances = new WeakMap();
 		this.initializeMacroCommand();
 	}
 
@@ -75,54 +123,333 @@ export class MacroCommand
 	/**
 	 * Add an entry to the <i>subCommands</i> list.
 	 * 
-	 * The <i>subCommands</i> will be called in First In/First Out (FIFO) order.
+	 * The <i>subCommands</i> will be called in First In/First Out (FIFO) order, once their
+	 * dependencies have completed.
 	 * 
 	 * @param commandClassRef
 	 *		A reference to the constructor of the <code>ICommand</code>.
 	 *
+	 * @param options
+	 * 		The <i>SubCommands</i> this one depends on and the predicate deciding whether it runs.
+	 *
+	 * @throws Error
+	 * 		If a dependency has not been added yet.
+	 *
 	 * @protected
 	 */
-	public addSubCommand(commandClass:CommandConstructor):void
+	public addSubCommand(commandClass:CommandConstructor<NotificationOf<MapType, NameType>>, options:ISubCommandOptions<NotificationOf<MapType, NameType>> = {}):void
 	{
-		this.#subCommands.push(commandClass);
+		const dependencies = options.dependsOn === undefined ? [] : ([] as CommandConstructor<NotificationOf<MapType, NameType>>[]).concat(options.dependsOn);
+		const dependsOn:number[] = [];
+
+		for (const dependency of dependencies)
+		{
+			const count = dependsOn.length;
+
+			this.#subCommands.forEach((subCommand, index) =>
+			{
+				if (subCommand.commandClass === dependency)
+					dependsOn.push(index);
+			});
+
+			if (dependsOn.length === count)
+				throw Error( MacroCommand.DEPENDENCY_MSG );
+		}
+
+		this.#subCommands.push({ commandClass, dependsOn, when: options.when });
+	}
+
+	/**
+	 * Set how many <i>SubCommands</i> may run at the same time.
+	 *
+	 * @param concurrency
+	 * 		The maximum number of <i>SubCommands</i> running at once, at least 1.
+	 * 		<code>Infinity</code> for no limit.
+	 */
+	public setConcurrency( concurrency:number ):void
+	{
+		this.#concurrency = Math.max(1, concurrency);
+	}
+
+	/**
+	 * Get how many <i>SubCommands</i> may run at the same time.
+	 *
+	 * @return
+	 * 		The maximum number of <i>SubCommands</i> running at once.
+	 */
+	public getConcurrency():number
+	{
+		return this.#concurrency;
+	}
+
+	/**
+	 * Set what this <code>MacroCommand</code> does when one of its <i>SubCommands</i> fails.
+	 *
+	 * @param failurePolicy
+	 * 		The <code>MacroCommandFailurePolicy</code> to apply.
+	 */
+	public setFailurePolicy( failurePolicy:MacroCommandFailurePolicy ):void
+	{
+		this.#failurePolicy = failurePolicy;
+	}
+
+	/**
+	 * Get what this <code>MacroCommand</code> does when one of its <i>SubCommands</i> fails.
+	 *
+	 * @return
+	 * 		The <code>MacroCommandFailurePolicy</code> applied.
+	 */
+	public getFailurePolicy():MacroCommandFailurePolicy
+	{
+		return this.#failurePolicy;
 	}
 
 	/** 
 	 * Execute this <code>MacroCommand</code>'s <i>SubCommands</i>.
 	 *
 	 * The <i>SubCommands</i> will be called in First In/First Out (FIFO)
-	 * order. 
+	 * order, as their dependencies complete and the concurrency limit allows.
 	 * 
 	 * @param notification
 	 *		The <code>INotification</code> object to be passed to each <i>SubCommand</i> of
 	 *		the list.
 	 *
+	 * @param context
+	 * 		The <code>IContainer</code> scope the <i>SubCommands</i> are created in and the
+	 * 		<code>AbortSignal</code> of the execution, if given.
+	 *
+	 * @return
+	 * 		The outcome of each <i>SubCommand</i> that ran or was skipped, in list order.
+	 *
+	 * @throws MacroCommandError
+	 * 		When <i>SubCommands</i> failed and the failure policy is not <code>ignore</code>.
+	 *
+	 * @throws NotificationAbortError
+	 * 		When the <code>AbortSignal</code> of the execution was aborted.
+	 *
 	 * @final
 	 */
-	public async execute( notification:INotification ): Promise<void>
+	public async execute( notification:NotificationOf<MapType, NameType>, context?:ICommandContext ): Promise<ISubCommandResult[]>
 	{
+		const container = context?.container;
 		const subCommands = this.#subCommands.slice(0);
+		const failurePolicy = this.#failurePolicy;
+		const concurrency = this.#concurrency;
+		const settled:ISubCommandResult[] = [];
+		const completed:ISubCommandResult[] = [];
+		const started:boolean[] = [];
+		let running = 0;
+		let stopped = false;
 
-		if (!this.#sequentialExecution)
+		const signal = context?.signal ?? notification.getSignal();
+
+		const results = await new Promise<ISubCommandResult[]>((resolve) =>
 		{
-			await Promise.allSettled(this.#subCommands.map((commandClass) =>
+			const next = ():void =>
 			{
-				const commandInstance:ICommand = new commandClass();
+				// Dependencies always come first in the list, so a single pass finds every ready one
+				for (let index = 0; index < subCommands.length && running < concurrency && !stopped && !signal?.aborted; index++)
+				{
+					if (started[index] || !subCommands[index].dependsOn.every((dependency) => settled[dependency]))
+						continue;
+
+					started[index] = true;
+					running++;
+
+					this.runSubCommand(subCommands[index], index, notification, settled, container, signal).then((result) =>
+					{
+						settled[index] = result;
+						completed.push(result);
+						running--;
+
+						if (result.status === "rejected" && failurePolicy === "failFast")
+							stopped = true;
+
+						next();
+					});
+				}
+
+				if (running === 0)
+					resolve(settled.filter(Boolean));
+			};
+
+			next();
+		});
+
+		if (signal?.aborted)
+		{
+			const error = new NotificationAbortError(notification, signal);
 
-				commandInstance.initializeNotifier(this.multitonKey);
-				return commandInstance.execute(notification);
-			}));
+			await this.rollback(notification, completed, error);
+			throw error;
 		}
-		else
+
+		const errors = results
+			.filter((result) => result.status === "rejected")
+			.map((result) => result.error as SubCommandError);
+
+		if (errors.length > 0 && failurePolicy !== "ignore")
 		{
-			for (let i = 0; i < subCommands.length; i++)
-			{
-				const commandClass = subCommands[i];
-				const commandInstance:ICommand = new commandClass();
+			const error = new MacroCommandError(errors, results);
+
+			error.rollback = await this.rollback(notification, completed, error);
+			throw error;
+		}
+
+		return results;
+	}
 
-				commandInstance.initializeNotifier(this.multitonKey);
-				await commandInstance.execute(notification);
+	/**
+	 * Run a <i>SubCommand</i> whose dependencies have completed, or skip it.
+	 *
+	 * @param subCommand
+	 * 		The entry of the <i>SubCommand</i> in the list.
+	 *
+	 * @param index
+	 * 		The position of the <i>SubCommand</i> in the list.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to pass to the <i>SubCommand</i>.
+	 *
+	 * @param settled
+	 * 		The outcome of the <i>SubCommand</i>s completed so far, by position.
+	 *
+	 * @param container
+	 * 		The <code>IContainer</code> scope to create the <i>SubCommand</i> in, if any.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> cancelling the execution, if any.
+	 */
+	private async runSubCommand( subCommand:SubCommandEntry<NotificationOf<MapType, NameType>>, index:number, notification:NotificationOf<MapType, NameType>, settled:ISubCommandResult[], container?:IContainer, signal?:AbortSignal ): Promise<ISubCommandResult>
+	{
+		const { commandClass } = subCommand;
+
+		try
+		{
+			if (subCommand.dependsOn.some((dependency) => settled[dependency].status !== "fulfilled") || (subCommand.when && !subCommand.when(notification)))
+				return { commandClass, index, status: "skipped" };
+		}
+		catch (error)
+		{
+			return { commandClass, index, status: "rejected", error: new SubCommandError(commandClass, index, error) };
+		}
+
+		return this.executeSubCommand(commandClass, index, notification, { results: settled.filter(Boolean), container, signal });
+	}
+
+	/**
+	 * Create, initialize and execute a single <i>SubCommand</i>.
+	 *
+	 * The <i>SubCommand</i> is created by the <code>IContainer</code> of the context, if any,
+	 * so its declared dependencies are injected.
+	 *
+	 * Never rejects, a failure is reported as a <code>rejected</code> result whose
+	 * <code>error</code> is a <code>SubCommandError</code>.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the <i>SubCommand</i>.
+	 *
+	 * @param index
+	 * 		The position of the <i>SubCommand</i> in the list.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to pass to the <i>SubCommand</i>.
+	 *
+	 * @param context
+	 * 		The <code>ICommandContext</code> to pass to the <i>SubCommand</i>.
+	 *
+	 * @return
+	 * 		The outcome of the <i>SubCommand</i>.
+	 *
+	 * @protected
+	 */
+	protected async executeSubCommand( commandClass:CommandConstructor<NotificationOf<MapType, NameType>>, index:number, notification:NotificationOf<MapType, NameType>, context:ICommandContext ): Promise<ISubCommandResult>
+	{
+		try
+		{
+			const commandInstance:ICommand<NotificationOf<MapType, NameType>> = context.container ? context.container.instantiate(commandClass) : new commandClass();
+
+			commandInstance.initializeNotifier(this.multitonKey);
+
+			const value = await commandInstance.execute(notification, context);
+			const result:ISubCommandResult = { commandClass, index, status: "fulfilled", value };
+
+			this.#instances.set(result, commandInstance);
+			return result;
+		}
+		catch (error)
+		{
+			return { commandClass, index, status: "rejected", error: new SubCommandError(commandClass, index, error) };
+		}
+	}
+
+	/**
+	 * Compensate the completed <i>SubCommand</i>s of a failed or aborted execution.
+	 *
+	 * Calls <code>compensate</code>, last completed first, on every fulfilled
+	 * <i>SubCommand</i> that declares it. A failing compensation is recorded and the rollback
+	 * goes on. Then sends <code>MACRO_ROLLED_BACK</code> with the returned report.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> the <code>MacroCommand</code> was executed with.
+	 *
+	 * @param results
+	 * 		The outcome of each <i>SubCommand</i> that ran, in completion order.
+	 *
+	 * @param error
+	 * 		The <code>MacroCommandError</code> or <code>NotificationAbortError</code> that
+	 * 		triggered the rollback.
+	 *
+	 * @return
+	 * 		What was compensated and what failed to.
+	 *
+	 * @protected
+	 */
+	protected async rollback( notification:NotificationOf<MapType, NameType>, results:ISubCommandResult[], error:Error ): Promise<IMacroRollback>
+	{
+		const compensated:ISubCommandResult[] = [];
+		const failed:ISubCommandResult[] = [];
+
+		for (let i = results.length - 1; i >= 0; i--)
+		{
+			const result = results[i];
+			const commandInstance = this.#instances.get(result);
+
+			if (result.status !== "fulfilled" || typeof commandInstance?.compensate !== "function")
+				continue;
+
+			try
+			{
+				await commandInstance.compensate(notification);
+				compensated.push(result);
+			}
+			catch (cause)
+			{
+				failed.push({ commandClass: result.commandClass, index: result.index, status: "rejected", error: new SubCommandError(result.commandClass, result.index, cause) });
 			}
 		}
+
+		const rollback:IMacroRollback = { notification, error, compensated, failed };
+
+		if (this.multitonKey)
+			await this.facade.notifyObservers(new Notification(MacroCommand.MACRO_ROLLED_BACK, rollback));
+
+		return rollback;
 	}
+
+	/**
+	 * The name of the notification sent when a <code>MacroCommand</code> has compensated its
+	 * completed <i>SubCommand</i>s after a failure or an abort. Its body is an
+	 * <code>IMacroRollback</code>.
+	 */
+	public static MACRO_ROLLED_BACK:string = "macroRolledBack";
+
+	/**
+	 * Error message used to indicate that a <i>SubCommand</i> depends on one that has not been
+	 * added yet.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	protected static DEPENDENCY_MSG:string = "SubCommand dependencies must be added before the SubCommands depending on them";
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { IMacroRollback, ISubCommandResult } from "../../interfaces";
+import { SubCommandError } from "./SubCommandError";
+
+/**
+ * The error a <code>MacroCommand</code> rejects with when some of its <i>SubCommand</i>s fail.
+ *
+ * <code>errors</code> holds one <code>SubCommandError</code> per failed <i>SubCommand</i>, and
+ * <code>results</code> the outcome of every <i>SubCommand</i> that ran.
+ */
+export class MacroCommandError
+	extends AggregateError
+{
+	/**
+	 * One <code>SubCommandError</code> per failed <i>SubCommand</i>, in list order.
+	 */
+	declare public readonly errors:SubCommandError[];
+
+	/**
+	 * The outcome of every <i>SubCommand</i> that ran, in list order.
+	 */
+	public readonly results:ISubCommandResult[];
+
+	/**
+	 * The compensation of the <i>SubCommand</i>s that completed before the failure.
+	 */
+	public rollback?:IMacroRollback;
+
+	/**
+	 * Constructs a <code>MacroCommandError</code> instance.
+	 *
+	 * @param errors
+	 * 		The errors of the failed <i>SubCommand</i>s.
+	 *
+	 * @param results
+	 * 		The outcome of every <i>SubCommand</i> that ran.
+	 */
+	constructor( errors:SubCommandError[], results:ISubCommandResult[] )
+	{
+		super(errors, `MacroCommand failed: ${errors.map((error) => `${error.commandClass.name || "anonymous"} #${error.index}`).join(", ")}`);
+
+		this.name = "MacroCommandError";
+		this.results = results;
+	}
+}
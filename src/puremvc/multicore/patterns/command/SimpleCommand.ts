@@ -1,4 +1,4 @@
-import { ICommand, INotification, INotifier } from "../../interfaces";
+import { DefaultNotificationMap, ICommand, ICommandContext, INotifier, NotificationName, NotificationOf } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -6,10 +6,14 @@ import { Notifier } from "../observer";
  * 
  * Your subclass should override the <code>execute</code> method where your business logic will
  * handle the <code>INotification</code>.
+ *
+ * The optional <code>MapType</code> notification map types the notifications the command
+ * sends, and <code>NameType</code> narrows the notification it receives to the names it is
+ * registered for.
  */
-export class SimpleCommand
-	extends Notifier
-	implements ICommand, INotifier
+export class SimpleCommand<MapType = DefaultNotificationMap, NameType extends NotificationName<MapType> = NotificationName<MapType>>
+	extends Notifier<MapType>
+	implements ICommand<NotificationOf<MapType, NameType>>, INotifier<MapType>
 {
 	/**
 	 * Fulfill the use-case initiated by the given <code>INotification</code>.
@@ -20,9 +24,16 @@ export class SimpleCommand
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @param context
+	 * 		Details of the execution, when executed by a <code>MacroCommand</code>.
+	 *
+	 * @return
+	 * 		An optional result, made available to the <i>SubCommand</i>s executed after this one
+	 * 		when it is itself a <i>SubCommand</i>.
 	 */
-	public async execute( notification:INotification ): Promise<void>
+	public async execute( notification:NotificationOf<MapType, NameType>, context?:ICommandContext ): Promise<unknown>
 	{
-
+		return undefined;
 	}
 }
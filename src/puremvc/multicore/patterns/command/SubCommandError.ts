@@ -0,0 +1,42 @@
+import { CommandConstructor } from "../../interfaces";
+
+/**
+ * The error reported by a <code>MacroCommand</code> for one of its failed <i>SubCommand</i>s.
+ *
+ * Names the <i>SubCommand</i> and its position, the original error is its
+ * <code>cause</code>.
+ */
+export class SubCommandError
+	extends Error
+{
+	/**
+	 * The constructor of the failed <i>SubCommand</i>.
+	 */
+	public readonly commandClass:CommandConstructor;
+
+	/**
+	 * The position of the failed <i>SubCommand</i> in the <code>MacroCommand</code>'s list.
+	 */
+	public readonly index:number;
+
+	/**
+	 * Constructs a <code>SubCommandError</code> instance.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the failed <i>SubCommand</i>.
+	 *
+	 * @param index
+	 * 		The position of the failed <i>SubCommand</i>.
+	 *
+	 * @param cause
+	 * 		The error the <i>SubCommand</i> rejected with.
+	 */
+	constructor( commandClass:CommandConstructor, index:number, cause:unknown )
+	{
+		super(`SubCommand ${commandClass.name || "anonymous"} #${index} failed: ${(cause as Error)?.message ?? cause}`, { cause });
+
+		this.name = "SubCommandError";
+		this.commandClass = commandClass;
+		this.index = index;
+	}
+}
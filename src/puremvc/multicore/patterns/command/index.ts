@@ -1,2 +1,5 @@
+export * from "./CommandTimeoutError";
 export * from "./SimpleCommand";
-export * from "./MacroCommand";
\ No newline at end of file
+export * from "./MacroCommand";
+export * from "./MacroCommandError";
+export * from "./SubCommandError";
\ No newline at end of file
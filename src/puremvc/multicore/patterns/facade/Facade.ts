@@ -1,8 +1,11 @@
+import { Container } from "../../core/Container";
 import { Controller } from "../../core/Controller";
 import { Model } from "../../core/Model";
+import { Scheduler } from "../../core/Scheduler";
 import { View } from "../../core/View";
-import { CommandConstructor, IController, IFacade, IMediator, IModel, INotification, IProxy, IView } from "../../interfaces";
-import { Notification } from "../observer";
+import { CommandConstructor, CommandExecutionMode, CommandLoader, DefaultNotificationMap, IClock, ICommandConcurrency, ICommandInterceptor, ICommandPolicy, ICommandQueueStatus, ICommandRegistration, IContainer, IController, IErrorPolicy, IFacade, IMediator, IModel, INotification, INotificationOptions, INotificationStream, NotificationInterest, INotificationStreamOptions, IProxy, ISaga, IScheduler, IView, IWaitForOptions, NotificationArgs, NotificationBody, NotificationName, NotificationOf, NotificationResult, NotificationSubscription, NotificationType, RandomSource, SubscribedName } from "../../interfaces";
+import { LinkedAbortController, Notification, Observer } from "../observer";
+import { NotificationStream } from "../stream/NotificationStream";
 
 /**
  * A base multiton <code>IFacade</code> implementation.
@@ -21,9 +24,13 @@ import { Notification } from "../observer";
  *
  * This <code>Facade</code> implementation is a multiton instance and cannot be instantiated directly,
  * but instead calls the static multiton factory method <code>Facade.getInstance( key )</code>.
+ *
+ * The optional <code>MapType</code> notification map types every notification name, body and
+ * type going through the <code>Facade</code>. Retrieve a typed instance with
+ * <code>Facade.getInstance&lt;AppNotifications&gt;( key )</code>.
  */
-export class Facade
-	implements IFacade
+export class Facade<MapType = DefaultNotificationMap>
+	implements IFacade<MapType>
 {
 	/**
 	 * Local reference to the <code>Model</code> multiton.
@@ -44,7 +51,7 @@ export class Facade
 	 *
 	 * @protected
 	 */
-	#controller:IController;
+	#controller:IController<MapType>;
 
 	/**
 	 * The multiton Key for this Core.
@@ -53,6 +60,11 @@ export class Facade
 	 */
 	#multitonKey:string;
 
+	/**
+	 * Aborts the notifications of this core when it is removed.
+	 */
+	#abortController:AbortController = new AbortController();
+
 	/**
 	 * Constructs a <code>Controller</code> instance.
 	 *
@@ -74,7 +86,7 @@ export class Facade
 
 		this.initializeNotifier( key );
 
-		Facade.instanceMap.set(key, this);
+		Facade.instanceMap.set(key, this as IFacade<any>);
 		this.initializeFacade();
 	}
 
@@ -144,7 +156,7 @@ export class Facade
 	protected initializeController():void
 	{
 		if(!this.#controller)
-			this.#controller = Controller.getInstance( this.#multitonKey );
+			this.#controller = Controller.getInstance<MapType>( this.#multitonKey );
 	}
 
 	/**
@@ -180,28 +192,125 @@ export class Facade
 	 * 
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to associate the <code>ICommand</code>
-	 *		with.
+	 *		with, or a <code>NotificationPattern</code> matching their names.
 	 * @param commandClassRef
-	 * 		A reference to the constructor of the <code>ICommand</code>.
+	 * 		A reference to the constructor of the <code>ICommand</code>, or a
+	 * 		<code>CommandLoader</code> called on the first matching notification.
+	 *
+	 * @param policy
+	 * 		The timeout, retry and rate limit policy of this registration, overriding the static
+	 * 		<code>policy</code> of the command class.
+	 *
+	 * @return
+	 * 		The handle of this registration, used to remove this <code>ICommand</code> only.
 	 */
-	public registerCommand( notificationName:string, commandClassRef:CommandConstructor ):void
+	public registerCommand<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		commandClassRef:CommandConstructor<NotificationOf<MapType, SubscribedName<MapType, NameType>>> | CommandLoader<NotificationOf<MapType, SubscribedName<MapType, NameType>>>, policy?:ICommandPolicy ):ICommandRegistration<NotificationOf<MapType, SubscribedName<MapType, NameType>>>
 	{
-		this.#controller.registerCommand( notificationName, commandClassRef );
+		return this.#controller.registerCommand( notificationName, commandClassRef, policy );
 	}
 
 	/**
-	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
-	 * mapping from the <code>Controller</code>.
+	 * Remove all the previously registered <code>ICommand</code> to <code>INotification</code>
+	 * mappings for an <code>INotification</code> name from the <code>Controller</code>.
 	 *
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to remove the <code>ICommand</code>
-		*		mapping for.
+		*		mappings for.
 		*/
-	public removeCommand( notificationName:string ):void
+	public removeCommand( notificationName:NotificationSubscription<MapType> ):void
 	{
 		this.#controller.removeCommand( notificationName );
 	}
 
+	/**
+	 * Set how the <code>ICommand</code>s registered with the <code>Controller</code> for an
+	 * <code>INotification</code> name are executed.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param mode
+	 *		<code>sequential</code> (the default) or <code>parallel</code>.
+	 */
+	public setExecutionMode( notificationName:NotificationSubscription<MapType>, mode:CommandExecutionMode ):void
+	{
+		this.#controller.setExecutionMode( notificationName, mode );
+	}
+
+	/**
+	 * Set how the <code>Controller</code> schedules the handlings of successive
+	 * <code>INotification</code>s with a name relative to each other.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param concurrency
+	 *		The concurrency mode, and the function keying the queues.
+	 */
+	public setConcurrency<NameType extends NotificationSubscription<MapType>>( notificationName:NameType, concurrency:ICommandConcurrency<NotificationOf<MapType, SubscribedName<MapType, NameType>>> ):void
+	{
+		this.#controller.setConcurrency( notificationName, concurrency );
+	}
+
+	/**
+	 * Set the priority of the <code>ICommand</code>s registered with the
+	 * <code>Controller</code> for an <code>INotification</code> name relative to the
+	 * <code>IMediator</code>s and other <code>IObserver</code>s.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @param priority
+	 *		Higher priorities are notified first, <code>0</code> by default.
+	 */
+	public setCommandPriority( notificationName:NotificationSubscription<MapType>, priority:number ):void
+	{
+		this.#controller.setCommandPriority( notificationName, priority );
+	}
+
+	/**
+	 * Get the state of the <code>Controller</code> queues of an <code>INotification</code>
+	 * name.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>.
+	 *
+	 * @return
+	 *		One status per key with notifications being handled or waiting.
+	 */
+	public getQueueStatus( notificationName:NotificationSubscription<MapType> ):ICommandQueueStatus[]
+	{
+		return this.#controller.getQueueStatus( notificationName );
+	}
+
+	/**
+	 * Add an <code>ICommandInterceptor</code> to the <code>Controller</code>, wrapping the
+	 * execution of every <code>ICommand</code> of the core.
+	 *
+	 * @param interceptor
+	 *		The <code>ICommandInterceptor</code> to add.
+	 */
+	public addCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		this.#controller.addCommandInterceptor( interceptor );
+	}
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code> from the
+	 * <code>Controller</code>.
+	 *
+	 * @param interceptor
+	 *		The <code>ICommandInterceptor</code> to remove.
+	 *
+	 * @return
+	 *		The interceptor was added and has been removed.
+	 */
+	public removeCommandInterceptor( interceptor:ICommandInterceptor ):boolean
+	{
+		return this.#controller.removeCommandInterceptor( interceptor );
+	}
+
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
 	 * 
@@ -213,7 +322,7 @@ export class Facade
 	 * 		A <code>Command</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 	 */
-	public hasCommand( notificationName:string ):boolean
+	public hasCommand( notificationName:NotificationSubscription<MapType> ):boolean
 	{
 		return this.#controller.hasCommand(notificationName);
 	}
@@ -221,11 +330,15 @@ export class Facade
 	/**
 	 * Register an <code>IProxy</code> with the <code>Model</code> by name.
 	 *
+	 * The dependencies declared by the <code>injectProperties</code> of its class are assigned
+	 * first.
+	 *
 	 * @param proxy
 	 *		The <code>IProxy</code> to be registered with the <code>Model</code>.
 	 */
 	public registerProxy( proxy:IProxy ):void
 	{
+		this.getContainer().injectProperties( proxy );
 		this.#model.registerProxy( proxy );
 	}
 			
@@ -279,11 +392,16 @@ export class Facade
 	/**
 	 * Register a <code>IMediator</code> with the <code>IView</code>.
 	 *
+	 * The dependencies declared by the <code>injectProperties</code> of its class are assigned
+	 * first.
+	 *
 	 * @param mediator
 	 *		A reference to the <code>IMediator</code>.
 	 */
-	public registerMediator( mediator:IMediator ):void
+	public registerMediator( mediator:IMediator<MapType> ):void
 	{
+		this.getContainer().injectProperties( mediator );
+
 		if( this.#view )
 			this.#view.registerMediator( mediator );
 	}
@@ -335,6 +453,104 @@ export class Facade
 		return this.#view.hasMediator( mediatorName );
 	}
 
+	/**
+	 * Register an <code>IMediator</code> for one more interest.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param interest
+	 * 		A notification name or <code>NotificationPattern</code>, or an
+	 * 		<code>INotificationInterest</code> with the options of the subscription.
+	 *
+	 * @return
+	 * 		The interest is registered, it is not if the <code>IMediator</code> is not or
+	 * 		already is for this name.
+	 */
+	public addMediatorInterest( mediatorName:string, interest:NotificationInterest<MapType> ):boolean
+	{
+		return this.#view.addMediatorInterest( mediatorName, interest );
+	}
+
+	/**
+	 * Stop notifying an <code>IMediator</code> for one of its interests.
+	 *
+	 * @param mediatorName
+	 * 		The name of the registered <code>IMediator</code>.
+	 *
+	 * @param notificationName
+	 * 		The notification name or <code>NotificationPattern</code> of the interest.
+	 *
+	 * @return
+	 * 		The interest was registered, and is removed.
+	 */
+	public removeMediatorInterest( mediatorName:string, notificationName:NotificationSubscription<MapType> ):boolean
+	{
+		return this.#view.removeMediatorInterest( mediatorName, notificationName );
+	}
+
+	/**
+	 * Register an <code>ISaga</code> with the <code>IView</code>.
+	 *
+	 * Its dependencies declared with <code>injectProperties</code> are injected first.
+	 *
+	 * @param saga
+	 *		A reference to the <code>ISaga</code>.
+	 */
+	public registerSaga( saga:ISaga<any, MapType> ):void
+	{
+		this.getContainer().injectProperties( saga );
+
+		if( this.#view )
+			this.#view.registerSaga( saga as ISaga );
+	}
+
+	/**
+	 * Retrieve an <code>ISaga</code> from the <code>IView</code>.
+	 *
+	 * @param sagaName
+	 * 		The name of the registered <code>ISaga</code> to retrieve.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> previously registered with the given <code>sagaName</code>.
+	 */
+	public retrieveSaga( sagaName:string ):ISaga | undefined
+	{
+		return this.#view.retrieveSaga( sagaName );
+	}
+
+	/**
+	 * Remove an <code>ISaga</code> from the <code>IView</code>, completing its running
+	 * instances.
+	 *
+	 * @param sagaName
+	 * 		Name of the <code>ISaga</code> to be removed.
+	 *
+	 * @return
+	 *		The <code>ISaga</code> that was removed from the <code>IView</code>.
+	 */
+	public removeSaga( sagaName:string ):ISaga | undefined
+	{
+		if (this.#view)
+			return this.#view.removeSaga( sagaName );
+
+		return undefined;
+	}
+
+	/**
+	 * Check if an <code>ISaga</code> is registered or not.
+	 *
+	 * @param sagaName
+	 * 		The name of the <code>ISaga</code> to verify the existence of a registration for.
+	 *
+	 * @return
+	 * 		An <code>ISaga</code> is registered with the given <code>sagaName</code>.
+	 */
+	public hasSaga( sagaName:string ):boolean
+	{
+		return this.#view.hasSaga( sagaName );
+	}
+
 	/**
 	 * Notify the <code>IObserver</code>s for a particular <code>INotification</code>.
 	 *
@@ -360,18 +576,343 @@ export class Facade
 	 * 
 	 * Keeps us from having to construct new notification instances in our implementation code.
 	 *
+	 * The <code>INotification</code> is cancelled when the <code>signal</code> of the options
+	 * or the <code>AbortSignal</code> of this core is aborted.
+	 *
+	 * @param args
+	 *		The name, body (optional), type (optional) and options (optional) of the
+	 *		notification to send.
+	 *
+	 * @return
+	 * 		A promise for whether an <code>IObserver</code> cancelled the
+	 * 		<code>INotification</code> with <code>preventDefault</code>.
+	 */
+	public async sendNotification(...args:NotificationArgs<MapType>): Promise<boolean | void>
+	{
+		const notification = await this.dispatch( args );
+
+		return notification.isDefaultPrevented();
+	}
+
+	/**
+	 * Send an <code>INotification</code> and get the value the <code>ICommand</code> mapped to
+	 * it resolved with, the one of the last registered when there are several.
+	 *
 	 * @param name
 	 *		The name of the notification to send.
 	 *
 	 * @param body
-	 *		The body of the notification to send.
+	 *		The body of the notification (optional).
 	 *
 	 * @param type
-	 *		The type of the notification to send.
+	 *		The type of the notification (optional).
+	 *
+	 * @param options
+	 *		The options of the notification (optional).
+	 *
+	 * @return
+	 * 		A promise for the result, rejected if no <code>ICommand</code> handled the
+	 * 		notification, because none is registered, an <code>IObserver</code> stopped its
+	 * 		propagation, the concurrency mode skipped or replaced the execution or the rate
+	 * 		limit left it to a trailing run, if it is cancelled with <code>preventDefault</code>
+	 * 		or if handling it throws.
+	 */
+	public async request<NameType extends NotificationName<MapType>>( name:NameType, body?:NotificationBody<MapType, NameType>,
+		type?:NotificationType<MapType, NameType>, options?:INotificationOptions ): Promise<NotificationResult<MapType, NameType>>
+	{
+		if (!this.#view.getObservers( name ).some((observer) => observer.compareNotifyContext(this.#controller)))
+			throw Error( `${Facade.REQUEST_MSG} ${name}` );
+
+		const notification = await this.dispatch( [name, body, type, options] as NotificationArgs<MapType> );
+
+		if (notification.isDefaultPrevented())
+			throw Error( `${Facade.CANCELLED_MSG} ${name}` );
+
+		if (!this.#controller.hasCommandResult( notification ))
+			throw Error( `${Facade.REQUEST_MSG} ${name}` );
+
+		return this.#controller.getCommandResult( notification ) as NotificationResult<MapType, NameType>;
+	}
+
+	/**
+	 * Call a handler for the next <code>INotification</code> with a name, and only for that
+	 * one.
+	 *
+	 * The handler is registered as an <code>IObserver</code> of the <code>IView</code> and
+	 * removed before it is called.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>, or a <code>NotificationPattern</code>.
+	 *
+	 * @param handler
+	 *		The function to call with the <code>INotification</code>.
+	 *
+	 * @return
+	 *		A function removing the handler if it has not been called yet.
+	 */
+	public once<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		handler:( notification:NotificationOf<MapType, SubscribedName<MapType, NameType>> ) => void | Promise<void> ):() => void
+	{
+		// A context of its own, to remove this observer only.
+		const context = {};
+		const remove = () => this.#view.removeObserver( notificationName, context );
+
+		this.#view.registerObserver( notificationName, new Observer(async (notification:NotificationOf<MapType, SubscribedName<MapType, NameType>>) =>
+		{
+			remove();
+			await handler(notification);
+		}, context) );
+
+		return remove;
+	}
+
+	/**
+	 * Wait for the next <code>INotification</code> with a name.
+	 *
+	 * An <code>IObserver</code> is registered with the <code>IView</code> until the wait
+	 * settles, whichever way it does.
+	 *
+	 * @param notificationName
+	 *		The name of the <code>INotification</code>, or a <code>NotificationPattern</code>.
+	 *
+	 * @param options
+	 *		The predicate the <code>INotification</code> must match, the timeout and the
+	 *		<code>AbortSignal</code> of the wait (optional).
+	 *
+	 * @return
+	 *		A promise for the <code>INotification</code>, rejected when the timeout elapses,
+	 *		when the <code>signal</code> is aborted, with its reason, when the core is
+	 *		removed, or with the error thrown by the <code>predicate</code>.
+	 */
+	public waitFor<NameType extends NotificationSubscription<MapType>>( notificationName:NameType,
+		options:IWaitForOptions<NotificationOf<MapType, SubscribedName<MapType, NameType>>> = {} ): Promise<NotificationOf<MapType, SubscribedName<MapType, NameType>>>
+	{
+		const { predicate, timeout, signal } = options;
+		const clock = this.getClock();
+		const linked = new LinkedAbortController(this.#abortController.signal, signal);
+		const context = {};
+
+		return new Promise((resolve, reject) =>
+		{
+			let handle:unknown;
+
+			const settle = () =>
+			{
+				this.#view.removeObserver( notificationName, context );
+				linked.signal.removeEventListener("abort", onAbort);
+				linked.dispose();
+
+				if (handle !== undefined)
+					clock.clearTimeout(handle);
+			};
+
+			const onAbort = () =>
+			{
+				settle();
+				reject(linked.signal.reason);
+			};
+
+			if (linked.signal.aborted)
+				return onAbort();
+
+			this.#view.registerObserver( notificationName, new Observer((notification:NotificationOf<MapType, SubscribedName<MapType, NameType>>) =>
+			{
+				let matches:boolean;
+
+				try
+				{
+					matches = !predicate || predicate(notification);
+				}
+				catch (error)
+				{
+					settle();
+					return reject(error);
+				}
+
+				if (!matches)
+					return;
+
+				settle();
+				resolve(notification);
+			}, context) );
+
+			linked.signal.addEventListener("abort", onAbort, { once: true });
+
+			if (timeout !== undefined)
+			{
+				handle = clock.setTimeout(() =>
+				{
+					settle();
+					reject(Error( `${Facade.WAIT_TIMEOUT_MSG} ${notificationName}` ));
+				}, timeout);
+			}
+		});
+	}
+
+	/**
+	 * Get a stream of the <code>INotification</code>s with some names, to consume with
+	 * <code>for await</code> or as an interop Observable.
+	 *
+	 * Each iteration and each subscription of the stream registers <code>IObserver</code>s
+	 * with the <code>IView</code> until it ends.
+	 *
+	 * @param notificationNames
+	 *		The names of the <code>INotification</code>s, or <code>NotificationPattern</code>s.
+	 *
+	 * @param options
+	 *		The filter, buffering and <code>AbortSignal</code> of the stream (optional).
+	 *
+	 * @return
+	 *		The stream, completed when the core is removed.
+	 */
+	public stream<NameType extends NotificationSubscription<MapType>>( notificationNames:NameType | NameType[],
+		options:INotificationStreamOptions<NotificationOf<MapType, SubscribedName<MapType, NameType>>> = {} ): INotificationStream<NotificationOf<MapType, SubscribedName<MapType, NameType>>>
+	{
+		const subscriptions:string[] = Array.isArray(notificationNames) ? notificationNames : [notificationNames];
+
+		return new NotificationStream( this.#view, subscriptions, options, this.#abortController.signal );
+	}
+
+	/**
+	 * Create an <code>INotification</code> and have the <code>IView</code> notify
+	 * <code>IObserver</code>s of it.
+	 *
+	 * The <code>INotification</code> is cancelled when the <code>signal</code> of the options
+	 * or the <code>AbortSignal</code> of this core is aborted.
+	 *
+	 * @param args
+	 *		The name, body (optional), type (optional) and options (optional) of the
+	 *		notification to send.
+	 *
+	 * @return
+	 * 		The handled <code>INotification</code>.
+	 *
+	 * @protected
+	 */
+	protected async dispatch( args:NotificationArgs<MapType> ): Promise<INotification>
+	{
+		const [name, body, type, options] = args;
+
+		if (!options?.signal)
+		{
+			const notification = new Notification(name, body, type, this.#abortController.signal);
+
+			await this.notifyObservers(notification);
+
+			return notification;
+		}
+
+		const linked = new LinkedAbortController(this.#abortController.signal, options.signal);
+
+		try
+		{
+			const notification = new Notification(name, body, type, linked.signal);
+
+			await this.notifyObservers(notification);
+
+			return notification;
+		}
+		finally
+		{
+			linked.dispose();
+		}
+	}
+
+	/**
+	 * Get the <code>AbortSignal</code> of this core.
+	 *
+	 * It is aborted when the core is removed, cancelling every notification sent through
+	 * <code>sendNotification</code> still being handled.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code> of this core.
 	 */
-	public async sendNotification(name:string, body?: unknown, type?: string): Promise<void>
+	public getSignal():AbortSignal
 	{
-		return this.notifyObservers(new Notification(name, body, type));
+		return this.#abortController.signal;
+	}
+
+	/**
+	 * Set the <code>IClock</code> of this core, timing its delays and timeouts.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> to use, a fake one in tests.
+	 */
+	public setClock( clock:IClock ):void
+	{
+		this.#controller.setClock( clock );
+		this.#view.setClock( clock );
+		this.getScheduler().setClock( clock );
+	}
+
+	/**
+	 * Get the <code>IClock</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IClock</code> in use.
+	 */
+	public getClock():IClock
+	{
+		return this.#controller.getClock();
+	}
+
+	/**
+	 * Set the <code>RandomSource</code> of this core, drawing the random parts of its delays.
+	 *
+	 * @param random
+	 * 		The <code>RandomSource</code> to use, a predictable one in tests.
+	 */
+	public setRandom( random:RandomSource ):void
+	{
+		this.#controller.setRandom( random );
+	}
+
+	/**
+	 * Get the <code>RandomSource</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>RandomSource</code> in use.
+	 */
+	public getRandom():RandomSource
+	{
+		return this.#controller.getRandom();
+	}
+
+	/**
+	 * Set how the errors thrown by the <code>IMediator</code>s, <code>ICommand</code>s and
+	 * other <code>IObserver</code>s of this core are handled.
+	 *
+	 * @param policy
+	 * 		Whether to isolate the errors, the handler of their reports, and whether to
+	 * 		rethrow them once every observer is notified, in tests.
+	 */
+	public setErrorPolicy( policy:IErrorPolicy ):void
+	{
+		this.#view.setErrorPolicy( policy );
+	}
+
+	/**
+	 * Get the <code>IContainer</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IContainer</code> injecting the dependencies of the commands, proxies and
+	 * 		mediators of this core.
+	 */
+	public getContainer():IContainer
+	{
+		return Container.getInstance( this.#multitonKey );
+	}
+
+	/**
+	 * Get the <code>IScheduler</code> of this core.
+	 *
+	 * @return
+	 * 		The <code>IScheduler</code> sending the delayed, recurring and cron notifications of
+	 * 		this core.
+	 */
+	public getScheduler():IScheduler<MapType>
+	{
+		return Scheduler.getInstance<MapType>( this.#multitonKey );
 	}
 	
 	/** 
@@ -395,28 +936,56 @@ export class Facade
 	 */
 	static MULTITON_MSG:string = "Facade instance for this multiton key already constructed!";
 
+	/**
+	 * Error message used to indicate that no <code>ICommand</code> handles a request.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static REQUEST_MSG:string = "No command registered for request";
+
+	/**
+	 * Error message used to indicate that a request was cancelled before its
+	 * <code>ICommand</code> executed.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static CANCELLED_MSG:string = "Request cancelled";
+
+	/**
+	 * Error message used to indicate that a notification did not arrive in time.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static WAIT_TIMEOUT_MSG:string = "Timed out waiting for";
+
 	/**
 	 * <code>Facade</code> singleton instance map.
 	 *
 	 * @protected
 	 */
-	static instanceMap:Map<string, IFacade> = new Map();
+	static instanceMap:Map<string, IFacade<any>> = new Map();
 
 	/**
 	 * <code>Facade</code> multiton factory method.
 	 * 
+	 * The notification map is a compile time only type argument, the same instance is returned
+	 * for a given key whichever map it is retrieved with.
+	 *
 	 * @param key
 	 *		The multiton key of the instance of <code>Facade</code> to create or retrieve.
 		* 
 		* @return
 		* 		The singleton instance of <code>Facade</code>.
 		*/
-	public static getInstance( key:string ):IFacade
+	public static getInstance<MapType = DefaultNotificationMap>( key:string ):IFacade<MapType>
 	{
 		if( !Facade.instanceMap.has(key) )
 			Facade.instanceMap.set(key, new Facade( key ));
 
-		return Facade.instanceMap.get(key)!;
+		return Facade.instanceMap.get(key) as IFacade<MapType>;
 	}
 
 	/**
@@ -436,8 +1005,10 @@ export class Facade
 	/**
 	 * Remove a core.
 	 *
-	 * Remove the <code>Model</code>, <code>View</code>, <code>Controller</code> and
-	 * <code>Facade</code> instances for the given key.
+	 * Remove the <code>Scheduler</code>, <code>Model</code>, <code>View</code>,
+	 * <code>Controller</code>, <code>Container</code> and <code>Facade</code> instances for the
+	 * given key, after aborting the notifications of the core still being handled. The jobs of
+	 * the <code>Scheduler</code> are cancelled and the <code>IProxy</code>s removed.
 	 * 
 	 * @param key
 	 *		Key identifier of the core to remove.
@@ -447,9 +1018,16 @@ export class Facade
 		if( !Facade.instanceMap.has(key))
 			return;
 
+		const facade = Facade.instanceMap.get(key);
+
+		if (facade instanceof Facade)
+			facade.#abortController.abort(Error( `Core ${key} removed` ));
+
+		Scheduler.removeScheduler( key );
 		Model.removeModel( key ); 
 		View.removeView( key );
 		Controller.removeController( key );
+		Container.removeContainer( key );
 
 		Facade.instanceMap.delete(key);
 	}
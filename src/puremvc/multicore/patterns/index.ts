@@ -1,5 +1,9 @@
+export * from "./clock";
 export * from "./command";
 export * from "./facade/Facade";
 export * from "./mediator/Mediator";
 export * from "./observer";
-export * from "./proxy/Proxy";
\ No newline at end of file
+export * from "./proxy/Proxy";
+export * from "./saga/Saga";
+export * from "./stream/NotificationStream";
+export * from "./undo";
\ No newline at end of file
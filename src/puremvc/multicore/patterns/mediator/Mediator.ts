@@ -1,4 +1,4 @@
-import { IMediator, INotification, INotifier } from "../../interfaces";
+import { DefaultNotificationMap, IMediator, INotifier, NotificationInterest, NotificationOf, NotificationSubscription } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -6,10 +6,33 @@ import { Notifier } from "../observer";
  * 
  * Typically, a <code>Mediator</code> will be written to serve one specific control or group
  * controls and so, will not have a need to be dynamically named.
+ *
+ * The optional <code>MapType</code> notification map restricts
+ * <code>listNotificationInterests</code> to known names and lets
+ * <code>handleNotification</code> narrow the body with <code>Notification.is</code>:
+ *
+ * <pre>
+ *		class UserMediator extends Mediator<UserForm, AppNotifications>
+ *		{
+ *			listNotificationInterests(): NotificationName<AppNotifications>[]
+ *			{
+ *				return ["USER_SAVED"];
+ *			}
+ *
+ *			async handleNotification( notification:NotificationOf<AppNotifications> ): Promise<void>
+ *			{
+ *				if (Notification.is(notification, "USER_SAVED"))
+ *					this.getViewComponent()?.show(notification.getBody());
+ *			}
+ *		}
+ * </pre>
+ *
+ * Once registered, a <code>Mediator</code> changes what it listens to with
+ * <code>addInterest</code> and <code>removeInterest</code>.
  */
-export class Mediator<ViewComponentType>
-	extends Notifier
-	implements IMediator, INotifier
+export class Mediator<ViewComponentType, MapType = DefaultNotificationMap>
+	extends Notifier<MapType>
+	implements IMediator<MapType>, INotifier<MapType>
 {
 	/**
 	 * The name of the <code>Mediator</code>.
@@ -89,14 +112,66 @@ export class Mediator<ViewComponentType>
 	 * List the <code>INotification</code> names this <code>IMediator</code> is interested in
 	 * being notified of.
 	 *
+	 * A name may be given as an <code>INotificationInterest</code> to debounce or throttle
+	 * <code>handleNotification</code> for it, or to be notified before or after the other
+	 * observers with a <code>priority</code>. It may also be replaced by a
+	 * <code>NotificationPattern</code> matching hierarchical names:
+	 *
+	 * <pre>
+	 *		return ["USER_SAVED", { name: "SEARCH_TEXT_CHANGED", rateLimit: { debounce: 300 } }, "user/**", { name: "NAVIGATE", priority: 10 }];
+	 * </pre>
+	 *
 	 * @return
 	 * 		The list of notifications names in which is interested the <code>Mediator</code>.
 	 */
-	public listNotificationInterests(): string[]
+	public listNotificationInterests(): NotificationInterest<MapType>[]
 	{
 		return [];
 	}
 
+	/**
+	 * Start listening to one more notification name or <code>NotificationPattern</code>.
+	 *
+	 * @param interest
+	 * 		The name or pattern, or an <code>INotificationInterest</code> with the options of
+	 * 		the subscription.
+	 *
+	 * @return
+	 * 		The interest is added, it is not if it already was.
+	 *
+	 * @throws Error
+	 * 		If the <code>Mediator</code> has not been registered yet.
+	 */
+	protected addInterest( interest:NotificationInterest<MapType> ):boolean
+	{
+		if (this.multitonKey === undefined)
+			throw Error( Notifier.MULTITON_MSG );
+
+		return this.facade.addMediatorInterest( this.getMediatorName(), interest );
+	}
+
+	/**
+	 * Stop listening to one of the interests of the <code>Mediator</code>, listed by
+	 * <code>listNotificationInterests</code> or added since.
+	 *
+	 * @param notificationName
+	 * 		The name or <code>NotificationPattern</code> of the interest.
+	 *
+	 * @return
+	 * 		The interest is removed, it is not if the <code>Mediator</code> was not listening
+	 * 		to it.
+	 *
+	 * @throws Error
+	 * 		If the <code>Mediator</code> has not been registered yet.
+	 */
+	protected removeInterest( notificationName:NotificationSubscription<MapType> ):boolean
+	{
+		if (this.multitonKey === undefined)
+			throw Error( Notifier.MULTITON_MSG );
+
+		return this.facade.removeMediatorInterest( this.getMediatorName(), notificationName );
+	}
+
 	/**
 	 * Handle <code>INotification</code>s.
 	 * 
@@ -104,10 +179,13 @@ export class Mediator<ViewComponentType>
 	 * Typically this will be handled in a switch statement, with one 'case' entry per
 	 * <code>INotification</code> the <code>Mediator</code> is interested in.
 	 *
+	 * Long running handling should watch the <code>AbortSignal</code> of the
+	 * <code>INotification</code>, see <code>getSignal</code>.
+	 *
 	 * @param notification
 	 * 		The notification instance to be handled.
 	 */ 
-	public async handleNotification( notification:INotification ): Promise<void>
+	public async handleNotification( notification:NotificationOf<MapType> ): Promise<void>
 	{
 
 	}
@@ -0,0 +1,42 @@
+/**
+ * An <code>AbortController</code> that is also aborted when any of the given
+ * <code>AbortSignal</code>s is, with the reason of the first one aborted.
+ *
+ * Call <code>dispose</code> once its signal is no longer watched, to stop listening to the
+ * given signals.
+ */
+export class LinkedAbortController
+	extends AbortController
+{
+	/**
+	 * The signals this controller follows.
+	 */
+	#signals:AbortSignal[];
+
+	/**
+	 * Abort with the reason of the first aborted signal.
+	 */
+	#onAbort = ():void => this.abort(this.#signals.find((signal) => signal.aborted)?.reason);
+
+	/**
+	 * Constructs a <code>LinkedAbortController</code> instance.
+	 *
+	 * @param signals
+	 * 		The signals to follow, <code>undefined</code> ones are ignored.
+	 */
+	constructor( ...signals:(AbortSignal | undefined)[] )
+	{
+		super();
+
+		this.#signals = signals.filter((signal):signal is AbortSignal => signal !== undefined);
+		this.#signals.forEach((signal) => signal.aborted ? this.#onAbort() : signal.addEventListener("abort", this.#onAbort, { once: true }));
+	}
+
+	/**
+	 * Stop following the given signals.
+	 */
+	public dispose():void
+	{
+		this.#signals.forEach((signal) => signal.removeEventListener("abort", this.#onAbort));
+	}
+}
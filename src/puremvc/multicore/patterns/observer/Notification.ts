@@ -24,23 +24,38 @@ import { INotification } from "../../interfaces";
  * pattern. PureMVC classes need not be related to each other in a parent/child relationship in
  * order to communicate with one another using <code>INotification</code>s.
  */
-export class Notification
-	implements INotification
+export class Notification<BodyType = unknown, TypeType extends string = string, NameType extends string = string>
+	implements INotification<BodyType, TypeType, NameType>
 {
 	/**
 	 * The name of the <code>Notification</code>.
 	 */
-	#name: string;
+	#name: NameType;
 
 	/**
 	 * The body data to send with the <code>Notification</code>.
 	 */
-	#body?: unknown;
+	#body?: BodyType;
 
 	/**
 	 * The type identifier of the <code>Notification</code>.
 	 */
-	#type?: string;
+	#type?: TypeType;
+
+	/**
+	 * The <code>AbortSignal</code> cancelling the handling of the <code>Notification</code>.
+	 */
+	#signal?: AbortSignal;
+
+	/**
+	 * Whether the remaining observers are skipped.
+	 */
+	#propagationStopped: boolean = false;
+
+	/**
+	 * Whether the default handling, by the commands, is cancelled.
+	 */
+	#defaultPrevented: boolean = false;
 
 	/**
 	 * Constructs a <code>Notification</code> instance.
@@ -53,12 +68,16 @@ export class Notification
 	 * 
 	 * @param type
 	 * 		Type identifier of the <code>Notification</code>.
+	 *
+	 * @param signal
+	 * 		<code>AbortSignal</code> cancelling the handling of the <code>Notification</code>.
 	 */
-	constructor (name:string, body?:unknown, type?:string)
+	constructor (name:NameType, body?:BodyType, type?:TypeType, signal?:AbortSignal)
 	{
 		this.#name = name;
 		this.#body = body;
 		this.#type = type;
+		this.#signal = signal;
 	}
 
 	/**
@@ -67,7 +86,7 @@ export class Notification
 	 * @return
 	 *		The name of the <code>Notification</code> instance.
 		*/
-	public getName():string
+	public getName():NameType
 	{
 		return this.#name;
 	}
@@ -78,7 +97,7 @@ export class Notification
 	 * @param body
 	 * 		The body of the <code>Notification</code> instance.
 	 */
-	public setBody(body: unknown):void
+	public setBody(body: BodyType):void
 	{
 		this.#body = body;
 	}
@@ -89,7 +108,7 @@ export class Notification
 	 * @return
 	 *		The body object of the <code>Notification</code> instance.
 	 */
-	public getBody(): unknown | undefined
+	public getBody(): BodyType
 	{
 		return this.#body;
 	}
@@ -100,7 +119,7 @@ export class Notification
 	 * @param type
 	 * 		The type of the <code>Notification</code> instance.
 	 */
-	public setType( type:string ):void
+	public setType( type:TypeType ):void
 	{
 		this.#type = type;
 	}
@@ -111,11 +130,63 @@ export class Notification
 	 * @return
 	 *		The type of the <code>Notification</code> instance.
 	 */
-	public getType(): string | undefined
+	public getType(): TypeType | undefined
 	{
 		return this.#type;
 	}
 
+	/**
+	 * Get the <code>AbortSignal</code> cancelling the handling of the
+	 * <code>Notification</code>.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code>, if the <code>Notification</code> can be cancelled.
+	 */
+	public getSignal(): AbortSignal | undefined
+	{
+		return this.#signal;
+	}
+
+	/**
+	 * Stop notifying the observers of the <code>Notification</code>, those after the current
+	 * one are skipped.
+	 */
+	public stopPropagation():void
+	{
+		this.#propagationStopped = true;
+	}
+
+	/**
+	 * Check if <code>stopPropagation</code> was called.
+	 *
+	 * @return
+	 * 		The remaining observers are not notified.
+	 */
+	public isPropagationStopped():boolean
+	{
+		return this.#propagationStopped;
+	}
+
+	/**
+	 * Cancel the default handling of the <code>Notification</code>: the commands registered
+	 * for it are not executed, the other observers are still notified.
+	 */
+	public preventDefault():void
+	{
+		this.#defaultPrevented = true;
+	}
+
+	/**
+	 * Check if <code>preventDefault</code> was called.
+	 *
+	 * @return
+	 * 		The <code>Notification</code> is cancelled.
+	 */
+	public isDefaultPrevented():boolean
+	{
+		return this.#defaultPrevented;
+	}
+
 	/**
 	 * Get a textual representation of the <code>Notification</code> instance.
 	 *
@@ -124,9 +195,36 @@ export class Notification
 	 */
 	toString():string
 	{
+		const body = this.getBody();
 		let msg:string = "Notification Name: " + this.getName();
-		msg += "\nBody:" + (( this.getBody() == null ) ? "null" : this.getBody()?.toString());
+		msg += "\nBody:" + (( body == null ) ? "null" : String(body));
 		msg += "\nType:" + (( this.getType() == null ) ? "null" : this.getType());
 		return msg;
-	}		
+	}
+
+	/**
+	 * Check the name of an <code>INotification</code>, narrowing its body and type.
+	 *
+	 * <code>INotification</code> exposes its name through a method, which TypeScript cannot
+	 * use to narrow a union of notifications, use this guard instead:
+	 *
+	 * <pre>
+	 *		if (Notification.is(notification, "USER_SAVED"))
+	 *			this.showUser(notification.getBody());
+	 * </pre>
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to check.
+	 *
+	 * @param name
+	 * 		The expected notification name.
+	 *
+	 * @return
+	 * 		The notification has the given <code>name</code>.
+	 */
+	public static is<UnionType extends INotification, NameType extends ReturnType<UnionType["getName"]>>(
+		notification:UnionType, name:NameType ): notification is Extract<UnionType, INotification<any, any, NameType>>
+	{
+		return notification.getName() === name;
+	}
 }
\ No newline at end of file
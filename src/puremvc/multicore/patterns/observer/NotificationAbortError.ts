@@ -0,0 +1,95 @@
+import { INotification } from "../../interfaces";
+
+/**
+ * The error the handling of an <code>INotification</code> rejects with when its
+ * <code>AbortSignal</code> is aborted.
+ *
+ * Its <code>name</code> is <code>"AbortError"</code>, like the errors of the platform APIs
+ * taking an <code>AbortSignal</code>, and its <code>cause</code> is the abort reason of the
+ * signal.
+ */
+export class NotificationAbortError
+	extends Error
+{
+	/**
+	 * The <code>INotification</code> whose handling was aborted.
+	 */
+	public readonly notification:INotification;
+
+	/**
+	 * Constructs a <code>NotificationAbortError</code> instance.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> whose handling was aborted.
+	 *
+	 * @param signal
+	 * 		The aborted <code>AbortSignal</code>, the one of the <code>INotification</code> by
+	 * 		default.
+	 */
+	constructor( notification:INotification, signal:AbortSignal | undefined = notification.getSignal() )
+	{
+		super(`Handling of notification ${notification.getName()} aborted`, { cause: signal?.reason });
+
+		this.name = "AbortError";
+		this.notification = notification;
+	}
+
+	/**
+	 * Throw a <code>NotificationAbortError</code> if the <code>AbortSignal</code> of the
+	 * <code>INotification</code> is aborted.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> of the handling, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @throws NotificationAbortError
+	 * 		If the handling of the <code>INotification</code> is aborted.
+	 */
+	public static throwIfAborted( notification:INotification, signal:AbortSignal | undefined = notification.getSignal() ):void
+	{
+		if (signal?.aborted)
+			throw new NotificationAbortError(notification, signal);
+	}
+
+	/**
+	 * Settle with the given handling of an <code>INotification</code>, or reject with a
+	 * <code>NotificationAbortError</code> as soon as its <code>AbortSignal</code> is aborted.
+	 *
+	 * The handling itself is not stopped, it is expected to watch the signal.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> being handled.
+	 *
+	 * @param handling
+	 * 		The pending handling of the <code>INotification</code>.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> of the handling, the one of the
+	 * 		<code>INotification</code> by default.
+	 *
+	 * @return
+	 * 		The outcome of the handling, unless aborted first.
+	 */
+	public static race<ResultType>( notification:INotification, handling:Promise<ResultType>, signal:AbortSignal | undefined = notification.getSignal() ): Promise<ResultType>
+	{
+		if (!signal)
+			return handling;
+
+		return new Promise<ResultType>((resolve, reject) =>
+		{
+			const onAbort = () => reject(new NotificationAbortError(notification, signal));
+
+			handling
+				.then(resolve, reject)
+				.finally(() => signal.removeEventListener("abort", onAbort));
+
+			if (signal.aborted)
+				onAbort();
+			else
+				signal.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+}
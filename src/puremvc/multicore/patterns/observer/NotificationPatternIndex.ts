@@ -0,0 +1,272 @@
+/**
+ * A node of the trie of a <code>NotificationPatternIndex</code>, one per pattern segment.
+ */
+interface PatternNode
+{
+	children:Map<string, PatternNode>;
+	pattern?:string;
+}
+
+/**
+ * An index of the <code>NotificationPattern</code>s observers are registered for, finding
+ * those matching a notification name.
+ *
+ * Names and patterns are split into segments on <code>/</code>. In a pattern a
+ * <code>*</code> segment matches exactly one segment of the name and a <code>**</code>
+ * segment one or more, any other segment matches itself.
+ *
+ * The patterns are kept in a trie walked segment by segment, so the cost of a match depends
+ * on the depth of the name rather than on the number of patterns, and the result for each
+ * name is cached until a pattern is added or removed.
+ */
+export class NotificationPatternIndex
+{
+	/**
+	 * The root of the trie of the patterns.
+	 */
+	#root:PatternNode = { children: new Map() };
+
+	/**
+	 * The indexed patterns, with the order in which they were added.
+	 */
+	#patterns:Map<string, number> = new Map();
+
+	/**
+	 * The patterns matching the recently notified names, in precedence order.
+	 */
+	#cache:Map<string, string[]> = new Map();
+
+	/**
+	 * The order of the next pattern added.
+	 */
+	#sequence:number = 0;
+
+	/**
+	 * Add a pattern to the index, nothing happens if it already is.
+	 *
+	 * @param pattern
+	 * 		The <code>NotificationPattern</code>.
+	 */
+	public add( pattern:string ):void
+	{
+		if (this.#patterns.has(pattern))
+			return;
+
+		let node = this.#root;
+
+		for (const segment of pattern.split(NotificationPatternIndex.SEPARATOR))
+		{
+			let child = node.children.get(segment);
+
+			if (!child)
+				node.children.set(segment, child = { children: new Map() });
+
+			node = child;
+		}
+
+		node.pattern = pattern;
+		this.#patterns.set(pattern, this.#sequence++);
+		this.#cache.clear();
+	}
+
+	/**
+	 * Remove a pattern from the index.
+	 *
+	 * @param pattern
+	 * 		The <code>NotificationPattern</code>.
+	 */
+	public remove( pattern:string ):void
+	{
+		if (!this.#patterns.delete(pattern))
+			return;
+
+		NotificationPatternIndex.prune(this.#root, pattern.split(NotificationPatternIndex.SEPARATOR), 0);
+		this.#cache.clear();
+	}
+
+	/**
+	 * Check if a pattern is indexed.
+	 *
+	 * @param pattern
+	 * 		The <code>NotificationPattern</code>.
+	 *
+	 * @return
+	 * 		The pattern has been added and not removed since.
+	 */
+	public has( pattern:string ):boolean
+	{
+		return this.#patterns.has(pattern);
+	}
+
+	/**
+	 * Get the patterns matching a notification name.
+	 *
+	 * The most specific patterns come first: those with more literal segments, then, among
+	 * those, the ones without <code>**</code>, and then the ones added first.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @return
+	 * 		The matching patterns in precedence order.
+	 */
+	public match( notificationName:string ):string[]
+	{
+		if (this.#patterns.size === 0)
+			return [];
+
+		let patterns = this.#cache.get(notificationName);
+
+		if (!patterns)
+		{
+			const found = new Set<string>();
+
+			NotificationPatternIndex.collect(this.#root, notificationName.split(NotificationPatternIndex.SEPARATOR), 0, found);
+			patterns = [...found].sort((a, b) => NotificationPatternIndex.compare(a, b) || this.#patterns.get(a) - this.#patterns.get(b));
+
+			if (this.#cache.size >= NotificationPatternIndex.CACHE_SIZE)
+				this.#cache.clear();
+
+			this.#cache.set(notificationName, patterns);
+		}
+
+		return patterns;
+	}
+
+	/**
+	 * Check if a subscription is a <code>NotificationPattern</code> rather than a name.
+	 *
+	 * @param subscription
+	 * 		The notification name or pattern.
+	 *
+	 * @return
+	 * 		One of its segments is <code>*</code> or <code>**</code>.
+	 */
+	public static isPattern( subscription:string ):boolean
+	{
+		return subscription.includes(NotificationPatternIndex.WILDCARD) && subscription.split(NotificationPatternIndex.SEPARATOR)
+			.some((segment) => segment === NotificationPatternIndex.WILDCARD || segment === NotificationPatternIndex.GLOBSTAR);
+	}
+
+	/**
+	 * Collect the patterns of a subtree matching the remaining segments of a name.
+	 *
+	 * @param node
+	 * 		The root of the subtree.
+	 *
+	 * @param segments
+	 * 		The segments of the name.
+	 *
+	 * @param index
+	 * 		The first segment not matched yet.
+	 *
+	 * @param found
+	 * 		The matching patterns.
+	 */
+	private static collect( node:PatternNode, segments:string[], index:number, found:Set<string> ):void
+	{
+		if (index === segments.length)
+		{
+			if (node.pattern !== undefined)
+				found.add(node.pattern);
+
+			return;
+		}
+
+		const literal = node.children.get(segments[index]);
+		const wildcard = node.children.get(NotificationPatternIndex.WILDCARD);
+		const globstar = node.children.get(NotificationPatternIndex.GLOBSTAR);
+
+		if (literal)
+			NotificationPatternIndex.collect(literal, segments, index + 1, found);
+
+		if (wildcard)
+			NotificationPatternIndex.collect(wildcard, segments, index + 1, found);
+
+		if (globstar)
+		{
+			for (let next = index + 1; next <= segments.length; next++)
+				NotificationPatternIndex.collect(globstar, segments, next, found);
+		}
+	}
+
+	/**
+	 * Remove a pattern from a subtree, along with the nodes left without pattern or children.
+	 *
+	 * @param node
+	 * 		The root of the subtree.
+	 *
+	 * @param segments
+	 * 		The segments of the pattern.
+	 *
+	 * @param index
+	 * 		The segment of the pattern <code>node</code> is the parent of.
+	 *
+	 * @return
+	 * 		The subtree is empty.
+	 */
+	private static prune( node:PatternNode, segments:string[], index:number ):boolean
+	{
+		if (index === segments.length)
+		{
+			node.pattern = undefined;
+		}
+		else
+		{
+			const child = node.children.get(segments[index]);
+
+			if (child && NotificationPatternIndex.prune(child, segments, index + 1))
+				node.children.delete(segments[index]);
+		}
+
+		return node.pattern === undefined && node.children.size === 0;
+	}
+
+	/**
+	 * Compare the specificity of two patterns.
+	 *
+	 * @return
+	 * 		A negative number when <code>a</code> is more specific than <code>b</code>, a
+	 * 		positive one when it is less, zero when they are as specific.
+	 */
+	private static compare( a:string, b:string ):number
+	{
+		const specificity = (pattern:string):number =>
+		{
+			const segments = pattern.split(NotificationPatternIndex.SEPARATOR);
+			const literals = segments.filter((segment) => segment !== NotificationPatternIndex.WILDCARD && segment !== NotificationPatternIndex.GLOBSTAR).length;
+
+			return literals * 2 + (segments.includes(NotificationPatternIndex.GLOBSTAR) ? 0 : 1);
+		};
+
+		return specificity(b) - specificity(a);
+	}
+
+	/**
+	 * The separator of the segments of hierarchical notification names.
+	 *
+	 * @constant
+	 */
+	public static SEPARATOR:string = "/";
+
+	/**
+	 * The pattern segment matching exactly one segment.
+	 *
+	 * @constant
+	 */
+	public static WILDCARD:string = "*";
+
+	/**
+	 * The pattern segment matching one or more segments.
+	 *
+	 * @constant
+	 */
+	public static GLOBSTAR:string = "**";
+
+	/**
+	 * How many names the matching patterns are cached for.
+	 *
+	 * @constant
+	 */
+	public static CACHE_SIZE:number = 1000;
+}
@@ -1,4 +1,4 @@
-import { IFacade, INotifier } from "../../interfaces";
+import { DefaultNotificationMap, IFacade, INotifier, NotificationArgs } from "../../interfaces";
 import { Facade } from "../facade/Facade";
 
 /**
@@ -25,9 +25,12 @@ import { Facade } from "../facade/Facade";
  * <LI>On a <code>ICommand</code> when it is executed by the <code>Controller</code>.
  * <LI>On a <code>IMediator</code> is registered with the <code>View</code>.
  * <LI>On a <code>IProxy</code> is registered with the <code>Model</code>.
+ *
+ * The optional <code>MapType</code> notification map types the notifications sent through
+ * <code>sendNotification</code> and the <code>facade</code> reference.
  */
-export class Notifier
-	implements INotifier
+export class Notifier<MapType = DefaultNotificationMap>
+	implements INotifier<MapType>
 {
 	/**
 	 * The multiton key for this core.
@@ -67,19 +70,19 @@ export class Notifier
 	 * Keeps us from having to construct new <code>Notification</code> instances in our
 	 * implementation code.
 	 * 
-	 * @param name
-	 * 		The name of the notification to send.
-	 * 
-	 * @param body
-	 * 		The body of the notification.
+	 * @param args
+	 * 		The name, body (optional) and type (optional) of the notification to send.
 	 *
-	 * @param type
-	 * 		The type of the notification.
+	 * @return
+	 * 		A promise for whether the notification was cancelled with
+	 * 		<code>preventDefault</code>.
 	 */
-	public async sendNotification(name:string, body?: unknown, type?:string): Promise<void>
+	public async sendNotification(...args:NotificationArgs<MapType>): Promise<boolean | void>
 	{
 		if (this.facade) 
-			return this.facade.sendNotification( name, body, type );
+			return this.facade.sendNotification( ...args );
+
+		return false;
 	}
 
 	/**
@@ -91,12 +94,12 @@ export class Notifier
 	 * @throws
 	 *		Throws an error if the multiton key for this Notifier is not yet initialized.
 	 */
-	public get facade(): IFacade
+	public get facade(): IFacade<MapType>
 	{
 		if (this.#multitonKey === null )
 			throw Error( Notifier.MULTITON_MSG );
 
-		return Facade.getInstance(this.#multitonKey);
+		return Facade.getInstance<MapType>(this.#multitonKey);
 	}
 
 	/**
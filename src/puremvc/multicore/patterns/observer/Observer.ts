@@ -58,7 +58,7 @@ export class Observer<ContextType = any>
 	 * @return
 	 * 		The notification (callback) method of the interested object.
 	 */
-	private getNotifyMethod(): Function | undefined
+	public getNotifyMethod(): Function | undefined
 	{
 		return this.#notify;
 	}
@@ -82,7 +82,7 @@ export class Observer<ContextType = any>
 	 * @return
 	 * 		The notification context (<code>this</code>) of the interested object.
 	 */
-	private getNotifyContext():any
+	public getNotifyContext():any
 	{
 		return this.#context;
 	}
@@ -0,0 +1,132 @@
+import { INotification, IObserver } from "../../interfaces";
+
+/**
+ * An <code>IObserver</code> holding its notification context through a <code>WeakRef</code>.
+ *
+ * Registering it with the <code>View</code> does not keep the context alive: once the
+ * context is garbage collected, the <code>WeakObserver</code> is no longer notified and the
+ * <code>View</code> drops it, so an ad-hoc listener that is never removed does not leak.
+ *
+ * The notification method must not reference the context itself, as a closure or a bound
+ * function would, or the context is never collected:
+ *
+ * <pre>
+ *		view.registerObserver("USER_SAVED", new WeakObserver(Panel.prototype.refresh, panel));
+ * </pre>
+ */
+export class WeakObserver<ContextType extends object = object>
+	implements IObserver
+{
+	/**
+	 * The notification method of the interested object.
+	 */
+	#notify?:Function;
+
+	/**
+	 * The weak reference to the notification context of the interested object.
+	 */
+	#context?:WeakRef<ContextType>;
+
+	/**
+	 * Constructs a <code>WeakObserver</code> instance.
+	 *
+	 * @param notifyMethod
+	 * 		The notification method of the interested object.
+	 *
+	 * @param notifyContext
+	 * 		The notification context of the interested object.
+	 */
+	constructor( notifyMethod:Function, notifyContext:ContextType )
+	{
+		this.setNotifyMethod( notifyMethod );
+		this.setNotifyContext( notifyContext );
+	}
+
+	/**
+	 * Get the notification method.
+	 *
+	 * @return
+	 * 		The notification (callback) method of the interested object.
+	 */
+	public getNotifyMethod():Function | undefined
+	{
+		return this.#notify;
+	}
+
+	/**
+	 * Set the notification method.
+	 *
+	 * The notification method should take one parameter of type <code>INotification</code>.
+	 *
+	 * @param notifyMethod
+	 * 		The notification (callback) method of the interested object.
+	 */
+	public setNotifyMethod( notifyMethod:Function ):void
+	{
+		this.#notify = notifyMethod;
+	}
+
+	/**
+	 * Get the notification context.
+	 *
+	 * @return
+	 * 		The notification context of the interested object, <code>undefined</code> once it
+	 * 		has been collected.
+	 */
+	public getNotifyContext():ContextType | undefined
+	{
+		return this.#context?.deref();
+	}
+
+	/**
+	 * Set the notification context.
+	 *
+	 * @param notifyContext
+	 * 		The notification context of the interested object.
+	 */
+	public setNotifyContext( notifyContext:ContextType ):void
+	{
+		this.#context = new WeakRef(notifyContext);
+	}
+
+	/**
+	 * Check if the notification context has been garbage collected.
+	 *
+	 * @return
+	 * 		The context is gone, the interested object is no longer notified.
+	 */
+	public isCollected():boolean
+	{
+		return this.getNotifyContext() === undefined;
+	}
+
+	/**
+	 * Notify the interested object, if its context has not been collected.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to pass to the interested object's notification
+	 * 		method.
+	 */
+	public async notifyObserver( notification:INotification ): Promise<void>
+	{
+		const context = this.getNotifyContext();
+
+		if (context !== undefined)
+			await this.#notify?.call( context, notification );
+	}
+
+	/**
+	 * Compare an object to the notification context.
+	 *
+	 * @param object
+	 * 		The object to compare.
+	 *
+	 * @return
+	 * 		The object and the notification context are the same, never once the context has
+	 * 		been collected.
+	 */
+	public compareNotifyContext( object:unknown ):boolean
+	{
+		return object !== undefined && object === this.getNotifyContext();
+	}
+}
@@ -1,3 +1,7 @@
+export * from "./LinkedAbortController";
 export * from "./Notification";
+export * from "./NotificationAbortError";
+export * from "./NotificationPatternIndex";
 export * from "./Notifier";
 export * from "./Observer";
+export * from "./WeakObserver";
\ No newline at end of file
@@ -1,6 +1,6 @@
 "use strict";
 
-import { INotifier, IProxy } from "../../interfaces";
+import { DefaultNotificationMap, INotifier, IProxy } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -21,9 +21,9 @@ import { Notifier } from "../observer";
  * <LI>Encapsulate interaction with local or remote services used to fetch and persist model
  * data.
  */
-export class Proxy<DataType>
-	extends Notifier
-	implements IProxy<DataType>, INotifier
+export class Proxy<DataType, MapType = DefaultNotificationMap>
+	extends Notifier<MapType>
+	implements IProxy<DataType, MapType>, INotifier<MapType>
 {
 	/**
 	 * The name of the <code>Proxy</code>.
@@ -0,0 +1,486 @@
+import { DefaultNotificationMap, IClock, INotification, ISaga, ISagaFailure, ISagaInstance, NotificationName, NotificationOf } from "../../interfaces";
+import { Notification, Notifier } from "../observer";
+
+/**
+ * A running instance of a <code>Saga</code>.
+ *
+ * Its notifications and timeouts are handled one at a time, in arrival order.
+ */
+class SagaInstance<StateType>
+	implements ISagaInstance<StateType>
+{
+	/**
+	 * The correlation id of the instance.
+	 */
+	public readonly id:string;
+
+	/**
+	 * The time the instance started, on the <code>IClock</code> of the core.
+	 */
+	public readonly startedAt:number;
+
+	/**
+	 * The state of the workflow.
+	 */
+	#state?:StateType;
+
+	/**
+	 * The names of the notifications waited for, any when <code>undefined</code>.
+	 */
+	#expected?:string[];
+
+	/**
+	 * The handle of the timeout of the expectation.
+	 */
+	#timer?:unknown;
+
+	/**
+	 * Whether <code>complete</code> was called.
+	 */
+	#completed:boolean;
+
+	/**
+	 * Settles once the last task queued has settled.
+	 */
+	#tail:Promise<void>;
+
+	/**
+	 * The <code>IClock</code> timing the expectations.
+	 */
+	#clock:IClock;
+
+	/**
+	 * Called when the timeout of an expectation expires.
+	 */
+	#onTimeout:( instance:SagaInstance<StateType> ) => void;
+
+	/**
+	 * Called when the instance completes.
+	 */
+	#onComplete:( instance:SagaInstance<StateType> ) => void;
+
+	/**
+	 * Constructs a <code>SagaInstance</code>.
+	 *
+	 * @param id
+	 * 		The correlation id of the instance.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code> timing the expectations.
+	 *
+	 * @param onTimeout
+	 * 		Called when the timeout of an expectation expires.
+	 *
+	 * @param onComplete
+	 * 		Called when the instance completes.
+	 */
+	constructor( id:string, clock:IClock, onTimeout:( instance:SagaInstance<StateType> ) => void, onComplete:( instance:SagaInstance<StateType> ) => void )
+	{
+		this.id = id;
+		this.startedAt = clock.now();
+		this.#completed = false;
+		this.#tail = Promise.resolve();
+		this.#clock = clock;
+		this.#onTimeout = onTimeout;
+		this.#onComplete = onComplete;
+	}
+
+	/**
+	 * Get the state of the workflow.
+	 *
+	 * @return
+	 * 		The state, <code>undefined</code> until set.
+	 */
+	public getState():StateType | undefined
+	{
+		return this.#state;
+	}
+
+	/**
+	 * Set the state of the workflow.
+	 *
+	 * @param state
+	 * 		The new state.
+	 */
+	public setState( state:StateType ):void
+	{
+		this.#state = state;
+	}
+
+	/**
+	 * Wait for one of some notifications, replacing the previous expectation.
+	 *
+	 * @param notificationNames
+	 * 		The names of the notifications to wait for.
+	 *
+	 * @param timeout
+	 * 		The timeout in milliseconds, no timeout when omitted.
+	 */
+	public expect( notificationNames:string[], timeout?:number ):void
+	{
+		this.fulfil();
+		this.#expected = notificationNames.slice(0);
+
+		if (timeout === undefined)
+			return;
+
+		const timer = this.#timer = this.#clock.setTimeout(() =>
+		{
+			if (this.#timer !== timer)
+				return;
+
+			this.fulfil();
+			this.#onTimeout(this);
+		}, timeout);
+	}
+
+	/**
+	 * Get the names of the notifications the instance waits for.
+	 *
+	 * @return
+	 * 		The names, <code>undefined</code> if it accepts any.
+	 */
+	public getExpected():string[] | undefined
+	{
+		return this.#expected?.slice(0);
+	}
+
+	/**
+	 * End the instance, clearing its expectation.
+	 */
+	public complete():void
+	{
+		if (this.#completed)
+			return;
+
+		this.#completed = true;
+		this.fulfil();
+		this.#onComplete(this);
+	}
+
+	/**
+	 * Check if the instance has completed.
+	 *
+	 * @return
+	 * 		<code>complete</code> was called.
+	 */
+	public isCompleted():boolean
+	{
+		return this.#completed;
+	}
+
+	/**
+	 * Clear the expectation and its timeout.
+	 */
+	public fulfil():void
+	{
+		if (this.#timer !== undefined)
+			this.#clock.clearTimeout(this.#timer);
+
+		this.#timer = undefined;
+		this.#expected = undefined;
+	}
+
+	/**
+	 * Run a task once the previous ones have settled.
+	 *
+	 * @param task
+	 * 		The task to run.
+	 *
+	 * @return
+	 * 		The outcome of the task.
+	 */
+	public run( task:() => Promise<void> ): Promise<void>
+	{
+		const result = this.#tail.then(task);
+
+		this.#tail = result.catch(() => undefined);
+
+		return result;
+	}
+}
+
+/**
+ * A base <code>ISaga</code> implementation.
+ *
+ * A <code>Saga</code> coordinates a workflow spanning several notifications, like an order
+ * waiting for its payment:
+ *
+ * <pre>
+ *		class OrderSaga extends Saga<OrderState, AppNotifications>
+ *		{
+ *			listNotificationInterests(): NotificationName<AppNotifications>[]
+ *			{
+ *				return ["ORDER_PLACED", "PAYMENT_CONFIRMED"];
+ *			}
+ *
+ *			isStartedBy( notification:NotificationOf<AppNotifications> ):boolean
+ *			{
+ *				return notification.getName() === "ORDER_PLACED";
+ *			}
+ *
+ *			getCorrelationId( notification:NotificationOf<AppNotifications> ):string
+ *			{
+ *				return notification.getBody().orderId;
+ *			}
+ *
+ *			async handleNotification( notification, instance ): Promise<void>
+ *			{
+ *				if (notification.getName() === "ORDER_PLACED")
+ *					return instance.expect(["PAYMENT_CONFIRMED"], 60000);
+ *
+ *				await this.sendNotification("SHIP_ORDER", instance.id);
+ *				instance.complete();
+ *			}
+ *
+ *			async handleTimeout( instance ): Promise<void>
+ *			{
+ *				await this.sendNotification("CANCEL_ORDER", instance.id);
+ *				instance.complete();
+ *			}
+ *		}
+ * </pre>
+ *
+ * The notifications and the timeouts of an instance are handled one at a time. A notification
+ * the instance does not expect is ignored. A failing <code>handleNotification</code> rejects
+ * the sending of the notification, a failing <code>handleTimeout</code> is reported with a
+ * <code>SAGA_FAILED</code> notification.
+ */
+export class Saga<StateType = any, MapType = DefaultNotificationMap>
+	extends Notifier<MapType>
+	implements ISaga<StateType, MapType>
+{
+	/**
+	 * The name of the <code>Saga</code>.
+	 *
+	 * @protected
+	 */
+	#sagaName:string;
+
+	/**
+	 * The running instances, by correlation id.
+	 *
+	 * @protected
+	 */
+	#instances:Map<string, SagaInstance<StateType>>;
+
+	/**
+	 * Constructs a <code>Saga</code> instance.
+	 *
+	 * @param sagaName
+	 * 		The name of the <code>Saga</code>.
+	 */
+	constructor( sagaName?:string )
+	{
+		super();
+
+		this.#sagaName = sagaName ?? Saga.NAME;
+		this.#instances = new Map();
+	}
+
+	/**
+	 * Get the <code>Saga</code> instance name.
+	 *
+	 * @return
+	 * 		The <code>Saga</code> instance name.
+	 */
+	public getSagaName():string
+	{
+		return this.#sagaName;
+	}
+
+	/**
+	 * List the <code>INotification</code> names this <code>Saga</code> is interested in.
+	 *
+	 * @return
+	 * 		The notification names, those starting an instance included.
+	 */
+	public listNotificationInterests(): NotificationName<MapType>[]
+	{
+		return [];
+	}
+
+	/**
+	 * Tell whether a notification without a running instance starts one. This method has to
+	 * be overridden by the subclass.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @return
+	 * 		A new instance is started for its correlation id.
+	 */
+	public isStartedBy( notification:NotificationOf<MapType> ):boolean
+	{
+		return false;
+	}
+
+	/**
+	 * Get the correlation id of a notification. This method has to be overridden by the
+	 * subclass.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @return
+	 * 		The id of the instance it belongs to, <code>undefined</code> to ignore it.
+	 */
+	public getCorrelationId( notification:NotificationOf<MapType> ):string | undefined
+	{
+		return undefined;
+	}
+
+	/**
+	 * Handle a notification for one of the instances. This method has to be overridden by
+	 * the subclass.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 *
+	 * @param instance
+	 * 		The instance it belongs to.
+	 */
+	public async handleNotification( notification:NotificationOf<MapType>, instance:ISagaInstance<StateType> ): Promise<void>
+	{
+
+	}
+
+	/**
+	 * Handle the expiry of the timeout given to <code>ISagaInstance.expect</code>.
+	 *
+	 * Completes the instance unless overridden.
+	 *
+	 * @param instance
+	 * 		The instance that waited too long.
+	 */
+	public async handleTimeout( instance:ISagaInstance<StateType> ): Promise<void>
+	{
+		instance.complete();
+	}
+
+	/**
+	 * Deliver a notification to the instance it belongs to, starting one if needed.
+	 *
+	 * Called by the <code>View</code>.
+	 *
+	 * @param notification
+	 * 		The notification received.
+	 */
+	public async receive( notification:INotification ): Promise<void>
+	{
+		const typed = notification as NotificationOf<MapType>;
+		const id = this.getCorrelationId(typed);
+
+		if (id === undefined)
+			return;
+
+		let instance = this.#instances.get(id);
+
+		if (!instance)
+		{
+			if (!this.isStartedBy(typed))
+				return;
+
+			instance = new SagaInstance(id, this.facade.getClock(), (expired) => this.timeout(expired), (completed) =>
+			{
+				if (this.#instances.get(completed.id) === completed)
+					this.#instances.delete(completed.id);
+			});
+
+			this.#instances.set(id, instance);
+		}
+
+		return instance.run(async () =>
+		{
+			const expected = instance.getExpected();
+
+			if (instance.isCompleted() || (expected && !expected.includes(notification.getName())))
+				return;
+
+			instance.fulfil();
+			await this.handleNotification(typed, instance);
+		});
+	}
+
+	/**
+	 * Retrieve a running instance.
+	 *
+	 * @param id
+	 * 		The correlation id of the instance.
+	 *
+	 * @return
+	 * 		The instance, <code>undefined</code> if none runs with this id.
+	 */
+	public retrieveInstance( id:string ):ISagaInstance<StateType> | undefined
+	{
+		return this.#instances.get(id);
+	}
+
+	/**
+	 * List the running instances.
+	 *
+	 * @return
+	 * 		The instances, in start order.
+	 */
+	public listInstances():ISagaInstance<StateType>[]
+	{
+		return Array.from(this.#instances.values());
+	}
+
+	/**
+	 * Called by the View when the Saga is registered. This method has to be overridden by
+	 * the subclass to know when the instance is registered.
+	 */
+	public onRegister():void
+	{
+
+	}
+
+	/**
+	 * Called by the View when the Saga is removed, after its instances are completed. This
+	 * method has to be overridden by the subclass to know when the instance is removed.
+	 */
+	public onRemove():void
+	{
+
+	}
+
+	/**
+	 * Handle the expired timeout of an instance, reporting a failure with a
+	 * <code>SAGA_FAILED</code> notification.
+	 *
+	 * @param instance
+	 * 		The instance that waited too long.
+	 */
+	private timeout( instance:SagaInstance<StateType> ):void
+	{
+		instance
+			.run(async () =>
+			{
+				if (!instance.isCompleted())
+					await this.handleTimeout(instance);
+			})
+			.catch((error) =>
+			{
+				const failure:ISagaFailure = { sagaName: this.#sagaName, instance, error };
+
+				return this.facade.notifyObservers(new Notification(Saga.SAGA_FAILED, failure));
+			})
+			.catch(() => undefined);
+	}
+
+	/**
+	 * Default name of the <code>Saga</code>.
+	 *
+	 * @constant
+	 */
+	static NAME:string = "Saga";
+
+	/**
+	 * Notification sent when the timeout handling of an instance fails, with an
+	 * <code>ISagaFailure</code> body.
+	 *
+	 * @constant
+	 */
+	static SAGA_FAILED:string = "sagaFailed";
+}
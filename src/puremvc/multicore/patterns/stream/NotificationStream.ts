@@ -0,0 +1,339 @@
+import { INotification, INotificationStream, INotificationStreamOptions, IStreamObserver, IStreamSubscription, IView } from "../../interfaces";
+import { Observer } from "../observer";
+
+/**
+ * The key of the Observable interop method: <code>Symbol.observable</code> when the platform
+ * or a polyfill defines it, <code>@@observable</code> otherwise.
+ */
+const observable:symbol | string = (Symbol as { observable?:symbol }).observable ?? "@@observable";
+
+/**
+ * A pending call to the <code>next</code> method of a stream iterator.
+ */
+interface PendingNext<NotificationType>
+{
+	resolve:( result:IteratorResult<NotificationType, undefined> ) => void;
+	reject:( error:unknown ) => void;
+}
+
+/**
+ * A stream of the notifications of a core with given names or
+ * <code>NotificationPattern</code>s.
+ *
+ * Iterate it with <code>for await</code>, every iteration buffers the notifications arriving
+ * while its loop body runs, up to <code>bufferSize</code>:
+ *
+ * <pre>
+ *		for await (const notification of facade.stream("user/**"))
+ *			await this.log(notification);
+ * </pre>
+ *
+ * Or subscribe to it, directly or through a reactive library accepting interop Observables:
+ *
+ * <pre>
+ *		const subscription = facade.stream(["USER_SAVED", "USER_DELETED"]).subscribe((notification) => this.refresh());
+ * </pre>
+ *
+ * Each iteration and each subscription registers observers of its own with the
+ * <code>IView</code>, removed when it ends.
+ */
+export class NotificationStream<NotificationType extends INotification = INotification>
+	implements INotificationStream<NotificationType>
+{
+	/**
+	 * The <code>IView</code> the observers are registered with.
+	 */
+	#view:IView;
+
+	/**
+	 * The notification names and patterns streamed.
+	 */
+	#subscriptions:string[];
+
+	/**
+	 * The filter, buffering and signal of the stream.
+	 */
+	#options:INotificationStreamOptions<NotificationType>;
+
+	/**
+	 * The <code>AbortSignal</code> of the core, completing the stream when aborted.
+	 */
+	#coreSignal?:AbortSignal;
+
+	/**
+	 * Constructs a <code>NotificationStream</code> instance.
+	 *
+	 * @param view
+	 * 		The <code>IView</code> of the core.
+	 *
+	 * @param subscriptions
+	 * 		The notification names and patterns to stream.
+	 *
+	 * @param options
+	 * 		The filter, buffering and signal of the stream.
+	 *
+	 * @param coreSignal
+	 * 		The <code>AbortSignal</code> aborted when the core is removed.
+	 */
+	constructor( view:IView, subscriptions:string[], options:INotificationStreamOptions<NotificationType> = {}, coreSignal?:AbortSignal )
+	{
+		this.#view = view;
+		this.#subscriptions = subscriptions;
+		this.#options = options;
+		this.#coreSignal = coreSignal;
+	}
+
+	/**
+	 * Subscribe to the notifications of the stream.
+	 *
+	 * An error thrown by <code>next</code> or by the <code>filter</code> does not reach the
+	 * sender of the notification, it ends the subscription and is passed to <code>error</code>.
+	 *
+	 * @param observer
+	 * 		The <code>IStreamObserver</code>, or the function called with each notification.
+	 *
+	 * @return
+	 * 		The subscription.
+	 */
+	public subscribe( observer:IStreamObserver<NotificationType> | (( notification:NotificationType ) => void) ):IStreamSubscription
+	{
+		const sink:IStreamObserver<NotificationType> = typeof observer === "function" ? { next: observer } : observer;
+		let closed = false;
+
+		const stop = this.listen(
+		{
+			next: (notification) =>
+			{
+				if (closed)
+					return;
+
+				try
+				{
+					sink.next?.(notification);
+				}
+				catch (error)
+				{
+					closed = true;
+					stop();
+					sink.error?.(error);
+				}
+			},
+			error: (error) =>
+			{
+				closed = true;
+				sink.error?.(error);
+			},
+			complete: () =>
+			{
+				closed = true;
+				sink.complete?.();
+			}
+		});
+
+		return {
+			get closed()
+			{
+				return closed;
+			},
+			unsubscribe: () =>
+			{
+				closed = true;
+				stop();
+			}
+		};
+	}
+
+	/**
+	 * Get the interop Observable of the stream, the stream itself.
+	 *
+	 * @return
+	 * 		This <code>NotificationStream</code>.
+	 */
+	public [observable]():this
+	{
+		return this;
+	}
+
+	/**
+	 * Start an iteration of the stream.
+	 *
+	 * The notifications arriving while the buffer is full are handled according to the
+	 * <code>overflow</code> policy. The iteration ends when the loop exits, and throws the
+	 * reason of the <code>signal</code> when it is aborted, or the error of the
+	 * <code>filter</code> when it throws.
+	 *
+	 * @return
+	 * 		The iterator.
+	 */
+	public [Symbol.asyncIterator]():AsyncIterableIterator<NotificationType>
+	{
+		const { bufferSize = NotificationStream.BUFFER_SIZE, overflow = "drop-oldest" } = this.#options;
+		const buffer:NotificationType[] = [];
+		const pending:PendingNext<NotificationType>[] = [];
+		let failure:{ error:unknown } | undefined;
+		let ended = false;
+		let stop:(() => void) | undefined;
+
+		// Settle the pending calls to next with what is available.
+		const flush = ():void =>
+		{
+			while (pending.length > 0 && (buffer.length > 0 || ended))
+			{
+				const { resolve, reject } = pending.shift();
+
+				if (buffer.length > 0)
+				{
+					resolve({ value: buffer.shift(), done: false });
+				}
+				else if (failure)
+				{
+					reject(failure.error);
+					failure = undefined;
+				}
+				else
+				{
+					resolve({ value: undefined, done: true });
+				}
+			}
+		};
+
+		const end = ( error?:{ error:unknown } ):void =>
+		{
+			if (ended)
+				return;
+
+			ended = true;
+			failure = error;
+			stop?.();
+			flush();
+		};
+
+		stop = this.listen(
+		{
+			next: (notification) =>
+			{
+				if (pending.length === 0 && buffer.length >= bufferSize)
+				{
+					if (overflow === "drop-newest")
+						return;
+
+					if (overflow === "error")
+						return end({ error: Error( `${NotificationStream.OVERFLOW_MSG} ${bufferSize}` ) });
+
+					buffer.shift();
+				}
+
+				buffer.push(notification);
+				flush();
+			},
+			error: (error) => end({ error }),
+			complete: () => end()
+		});
+
+		return {
+			next: () => new Promise((resolve, reject) =>
+			{
+				pending.push({ resolve, reject });
+				flush();
+			}),
+			return: async () =>
+			{
+				buffer.length = 0;
+				end();
+
+				return { value: undefined, done: true };
+			},
+			[Symbol.asyncIterator]()
+			{
+				return this;
+			}
+		};
+	}
+
+	/**
+	 * Register the observers of an iteration or a subscription.
+	 *
+	 * @param observer
+	 * 		The callbacks of the iteration or subscription.
+	 *
+	 * @return
+	 * 		A function removing the observers.
+	 */
+	private listen( observer:Required<IStreamObserver<NotificationType>> ):() => void
+	{
+		const { filter, signal } = this.#options;
+		const coreSignal = this.#coreSignal;
+
+		// A context of its own, to remove these observers only.
+		const context = {};
+
+		const stop = ():void =>
+		{
+			this.#subscriptions.forEach((subscription) => this.#view.removeObserver(subscription, context));
+			signal?.removeEventListener("abort", onAbort);
+			coreSignal?.removeEventListener("abort", onRemove);
+		};
+
+		const onAbort = ():void =>
+		{
+			stop();
+			observer.error(signal.reason);
+		};
+
+		const onRemove = ():void =>
+		{
+			stop();
+			observer.complete();
+		};
+
+		if (signal?.aborted)
+		{
+			onAbort();
+		}
+		else if (coreSignal?.aborted)
+		{
+			onRemove();
+		}
+		else
+		{
+			const notify = new Observer((notification:NotificationType) =>
+			{
+				let accepted:boolean;
+
+				try
+				{
+					accepted = !filter || filter(notification);
+				}
+				catch (error)
+				{
+					stop();
+					return observer.error(error);
+				}
+
+				if (accepted)
+					observer.next(notification);
+			}, context);
+
+			this.#subscriptions.forEach((subscription) => this.#view.registerObserver(subscription, notify));
+			signal?.addEventListener("abort", onAbort, { once: true });
+			coreSignal?.addEventListener("abort", onRemove, { once: true });
+		}
+
+		return stop;
+	}
+
+	/**
+	 * How many notifications an iteration buffers by default.
+	 *
+	 * @constant
+	 */
+	public static BUFFER_SIZE:number = 100;
+
+	/**
+	 * Error message used to indicate that the buffer of an iteration overflowed.
+	 *
+	 * @constant
+	 * @protected
+	 */
+	static OVERFLOW_MSG:string = "Notification stream buffer overflowed, size";
+}
@@ -0,0 +1,487 @@
+import { DefaultNotificationMap, ICommandGroup, ICommandHistoryState, INotification, IUndoableCommand, NotificationArgs } from "../../interfaces";
+import { LinkedAbortController, Notification } from "../observer";
+import { Proxy } from "../proxy/Proxy";
+
+/**
+ * The undo, redo or group notifications are sent from.
+ */
+interface HistoryScope
+{
+	/**
+	 * The commands of the group, <code>undefined</code> for an undo or redo, whose commands are
+	 * not recorded.
+	 */
+	step?:IUndoableCommand[];
+
+	/**
+	 * The group is closed, the commands recorded later make steps of their own.
+	 */
+	ended?:boolean;
+}
+
+/**
+ * A <code>Proxy</code> keeping the undo and redo history of a core.
+ *
+ * <code>UndoableCommand</code>s record themselves here once executed. Each entry of the
+ * history is a <i>step</i>: a single command, or the commands executed by the notifications
+ * sent through a group, that are undone and redone together:
+ *
+ * <pre>
+ *		await history.group(async (group) =>
+ *		{
+ *			await group.sendNotification("MOVE_SHAPE", move);
+ *			await group.sendNotification("RESIZE_SHAPE", resize);
+ *		});
+ * </pre>
+ *
+ * Undos, redos and groups are told apart by the notifications they send, and by those the
+ * <code>UndoableCommand</code>s they execute send in turn: the commands executed meanwhile
+ * for other notifications are recorded as usual.
+ *
+ * Whenever the history changes, a <code>HISTORY_CHANGED</code> notification is sent with an
+ * <code>ICommandHistoryState</code> body, so <code>Mediator</code>s can enable or disable their
+ * undo and redo controls.
+ *
+ * The history is registered with the <code>Model</code> by the first
+ * <code>UndoableCommand</code> executed in the core, register your own instance beforehand to
+ * configure it:
+ *
+ * <pre>
+ *		const history = new CommandHistory();
+ *		history.setLimit(50);
+ *		facade.registerProxy(history);
+ * </pre>
+ */
+export class CommandHistory
+	extends Proxy<void>
+{
+	/**
+	 * The steps that can be undone, most recent last.
+	 */
+	#undoStack:IUndoableCommand[][];
+
+	/**
+	 * The steps that can be redone, most recently undone last.
+	 */
+	#redoStack:IUndoableCommand[][];
+
+	/**
+	 * The maximum number of steps that can be undone.
+	 */
+	#limit:number;
+
+	/**
+	 * The undo, redo or group each notification was sent from.
+	 */
+	#scopes:WeakMap<INotification, HistoryScope>;
+
+	/**
+	 * The undo or redo of each command being undone or redone.
+	 */
+	#replays:WeakMap<IUndoableCommand, HistoryScope>;
+
+	/**
+	 * Constructs a <code>CommandHistory</code> instance.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code>, <code>CommandHistory.NAME</code> by default.
+	 * 		<code>UndoableCommand</code>s only record into the history with the default name.
+	 */
+	constructor( proxyName?:string )
+	{
+		super(proxyName ?? CommandHistory.NAME);
+
+		this.#undoStack = [];
+		this.#redoStack = [];
+		this.#limit = CommandHistory.DEFAULT_LIMIT;
+		this.#scopes = new WeakMap();
+		this.#replays = new WeakMap();
+	}
+
+	/**
+	 * Record an executed <code>IUndoableCommand</code>.
+	 *
+	 * The command joins the group it was executed from if any, otherwise it is a new step.
+	 * Recording a new step clears the redo history. Commands executed from an undo or redo
+	 * are ignored.
+	 *
+	 * @param command
+	 * 		The executed <code>IUndoableCommand</code>.
+	 */
+	public async record( command:IUndoableCommand ): Promise<void>
+	{
+		const scope = this.getScope(command);
+
+		if (scope)
+			return this.addToScope(scope, command);
+
+		return this.pushStep([command]);
+	}
+
+	/**
+	 * Open a group, the commands executed for the notifications sent through it make a single
+	 * step once it is closed.
+	 *
+	 * @return
+	 * 		The <code>ICommandGroup</code>.
+	 */
+	public beginGroup<MapType = DefaultNotificationMap>():ICommandGroup<MapType>
+	{
+		const scope:HistoryScope = { step: [] };
+
+		return {
+			sendNotification: (...args) => this.send(scope, args as NotificationArgs<DefaultNotificationMap>),
+			record: (command) => this.addToScope(scope, command),
+			end: async () =>
+			{
+				if (scope.ended)
+					return;
+
+				scope.ended = true;
+
+				if (scope.step.length > 0)
+					return this.pushStep(scope.step);
+			}
+		};
+	}
+
+	/**
+	 * Run a function with a group, so the commands executed for the notifications it sends
+	 * through the group make a single step.
+	 *
+	 * @param block
+	 * 		The function to run, sending the notifications of the commands to group.
+	 *
+	 * @return
+	 * 		The value returned by <code>block</code>.
+	 */
+	public async group<ResultType, MapType = DefaultNotificationMap>( block:( group:ICommandGroup<MapType> ) => Promise<ResultType> ): Promise<ResultType>
+	{
+		const group = this.beginGroup<MapType>();
+
+		try
+		{
+			return await block(group);
+		}
+		finally
+		{
+			await group.end();
+		}
+	}
+
+	/**
+	 * Create and send a <code>Notification</code> for an <code>IUndoableCommand</code>, from
+	 * the undo, redo or group the command runs in if any.
+	 *
+	 * @param command
+	 * 		The sending <code>IUndoableCommand</code>.
+	 *
+	 * @param args
+	 * 		The name, body (optional), type (optional) and options (optional) of the
+	 * 		notification to send.
+	 *
+	 * @return
+	 * 		A promise for whether an <code>IObserver</code> cancelled the notification with
+	 * 		<code>preventDefault</code>.
+	 */
+	public async sendFrom( command:IUndoableCommand, args:NotificationArgs<DefaultNotificationMap> ): Promise<boolean | void>
+	{
+		const scope = this.getScope(command);
+
+		if (scope)
+			return this.send(scope, args);
+
+		return this.facade.sendNotification(...args);
+	}
+
+	/**
+	 * Undo the most recent step, its commands are undone in reverse order.
+	 *
+	 * @return
+	 * 		A step was undone.
+	 */
+	public async undo(): Promise<boolean>
+	{
+		const step = this.#undoStack.pop();
+
+		if (!step)
+			return false;
+
+		try
+		{
+			await this.replay(step, async () =>
+			{
+				for (let i = step.length - 1; i >= 0; i--)
+					await step[i].undo();
+			});
+		}
+		catch (error)
+		{
+			this.#undoStack.push(step);
+			throw error;
+		}
+
+		this.#redoStack.push(step);
+		await this.sendHistoryChanged();
+
+		return true;
+	}
+
+	/**
+	 * Redo the most recently undone step, its commands are redone in their original order.
+	 *
+	 * @return
+	 * 		A step was redone.
+	 */
+	public async redo(): Promise<boolean>
+	{
+		const step = this.#redoStack.pop();
+
+		if (!step)
+			return false;
+
+		try
+		{
+			await this.replay(step, async () =>
+			{
+				for (let i = 0; i < step.length; i++)
+					await step[i].redo();
+			});
+		}
+		catch (error)
+		{
+			this.#redoStack.push(step);
+			throw error;
+		}
+
+		this.#undoStack.push(step);
+		await this.sendHistoryChanged();
+
+		return true;
+	}
+
+	/**
+	 * Check if there is a step to undo.
+	 *
+	 * @return
+	 * 		<code>undo</code> would undo a step.
+	 */
+	public canUndo():boolean
+	{
+		return this.#undoStack.length > 0;
+	}
+
+	/**
+	 * Check if there is a step to redo.
+	 *
+	 * @return
+	 * 		<code>redo</code> would redo a step.
+	 */
+	public canRedo():boolean
+	{
+		return this.#redoStack.length > 0;
+	}
+
+	/**
+	 * Forget every step, to undo and to redo.
+	 */
+	public async clear(): Promise<void>
+	{
+		this.#undoStack = [];
+		this.#redoStack = [];
+
+		return this.sendHistoryChanged();
+	}
+
+	/**
+	 * Set the maximum number of steps that can be undone, the oldest steps are dropped first.
+	 *
+	 * @param limit
+	 * 		The maximum number of steps, <code>Infinity</code> for no limit.
+	 */
+	public async setLimit( limit:number ): Promise<void>
+	{
+		this.#limit = Math.max(0, limit);
+
+		if (this.#undoStack.length > this.#limit)
+		{
+			this.#undoStack.splice(0, this.#undoStack.length - this.#limit);
+			return this.sendHistoryChanged();
+		}
+	}
+
+	/**
+	 * Get the maximum number of steps that can be undone.
+	 *
+	 * @return
+	 * 		The maximum number of steps.
+	 */
+	public getLimit():number
+	{
+		return this.#limit;
+	}
+
+	/**
+	 * Get the current state of the history.
+	 *
+	 * @return
+	 * 		The state sent with <code>HISTORY_CHANGED</code> notifications.
+	 */
+	public getState():ICommandHistoryState
+	{
+		return {
+			canUndo: this.canUndo(),
+			canRedo: this.canRedo(),
+			undoCount: this.#undoStack.length,
+			redoCount: this.#redoStack.length
+		};
+	}
+
+	/**
+	 * Add a step to the undo history, clearing the redo history and applying the limit.
+	 *
+	 * @param step
+	 * 		The commands of the step, in execution order.
+	 *
+	 * @protected
+	 */
+	protected async pushStep( step:IUndoableCommand[] ): Promise<void>
+	{
+		this.#undoStack.push(step);
+		this.#redoStack = [];
+
+		if (this.#undoStack.length > this.#limit)
+			this.#undoStack.splice(0, this.#undoStack.length - this.#limit);
+
+		return this.sendHistoryChanged();
+	}
+
+	/**
+	 * Run an undo or redo, ignoring the commands executed for the notifications it sends.
+	 *
+	 * @param step
+	 * 		The commands of the step undone or redone.
+	 *
+	 * @param block
+	 * 		The undo or redo to run.
+	 *
+	 * @protected
+	 */
+	protected async replay( step:IUndoableCommand[], block:() => Promise<void> ): Promise<void>
+	{
+		const scope:HistoryScope = {};
+
+		step.forEach((command) => this.#replays.set(command, scope));
+
+		try
+		{
+			await block();
+		}
+		finally
+		{
+			step.forEach((command) => this.#replays.delete(command));
+		}
+	}
+
+	/**
+	 * Get the undo, redo or group an <code>IUndoableCommand</code> runs in.
+	 *
+	 * @param command
+	 * 		The <code>IUndoableCommand</code>.
+	 *
+	 * @return
+	 * 		The scope of the command, <code>undefined</code> outside of any.
+	 */
+	private getScope( command:IUndoableCommand ):HistoryScope | undefined
+	{
+		return this.#replays.get(command) ?? this.#scopes.get(command.getNotification());
+	}
+
+	/**
+	 * Record a command into an undo, redo or group.
+	 *
+	 * @param scope
+	 * 		The scope to record into.
+	 *
+	 * @param command
+	 * 		The executed <code>IUndoableCommand</code>.
+	 */
+	private async addToScope( scope:HistoryScope, command:IUndoableCommand ): Promise<void>
+	{
+		if (!scope.step)
+			return;
+
+		if (scope.ended)
+			return this.pushStep([command]);
+
+		scope.step.push(command);
+	}
+
+	/**
+	 * Create and send a <code>Notification</code> from an undo, redo or group.
+	 *
+	 * @param scope
+	 * 		The scope the notification is sent from.
+	 *
+	 * @param args
+	 * 		The name, body (optional), type (optional) and options (optional) of the
+	 * 		notification to send.
+	 *
+	 * @return
+	 * 		A promise for whether an <code>IObserver</code> cancelled the notification with
+	 * 		<code>preventDefault</code>.
+	 */
+	private async send( scope:HistoryScope, args:NotificationArgs<DefaultNotificationMap> ): Promise<boolean>
+	{
+		const [name, body, type, options] = args;
+		const linked = new LinkedAbortController(this.facade.getSignal(), options?.signal);
+
+		try
+		{
+			const notification = new Notification(name, body, type, linked.signal);
+			this.#scopes.set(notification, scope);
+
+			await this.facade.notifyObservers(notification);
+
+			return notification.isDefaultPrevented();
+		}
+		finally
+		{
+			linked.dispose();
+		}
+	}
+
+	/**
+	 * Send the <code>HISTORY_CHANGED</code> notification with the current state.
+	 *
+	 * Nothing is sent until the history is registered with a <code>Model</code>.
+	 *
+	 * @protected
+	 */
+	protected async sendHistoryChanged(): Promise<void>
+	{
+		if (this.multitonKey)
+			await this.sendNotification(CommandHistory.HISTORY_CHANGED, this.getState());
+	}
+
+	/**
+	 * The default name of the <code>CommandHistory</code>.
+	 *
+	 * @constant
+	 */
+	public static NAME:string = "CommandHistory";
+
+	/**
+	 * The name of the notification sent when the history changes.
+	 *
+	 * @constant
+	 */
+	public static HISTORY_CHANGED:string = "historyChanged";
+
+	/**
+	 * The default maximum number of steps that can be undone.
+	 *
+	 * @constant
+	 */
+	public static DEFAULT_LIMIT:number = 100;
+}
@@ -0,0 +1,161 @@
+import { DefaultNotificationMap, ICommandContext, IUndoableCommand, NotificationArgs, NotificationName, NotificationOf } from "../../interfaces";
+import { SimpleCommand } from "../command";
+import { CommandHistory } from "./CommandHistory";
+
+/**
+ * A base <code>IUndoableCommand</code> implementation.
+ *
+ * When executed, an <code>UndoableCommand</code> captures its <code>INotification</code>, runs
+ * <code>doExecute</code> and records itself in the <code>CommandHistory</code> of its core,
+ * registering one with the <code>Model</code> if needed.
+ *
+ * Your subclass should override <code>doExecute</code> instead of <code>execute</code>, and
+ * <code>undo</code> to revert what <code>doExecute</code> changed. <code>redo</code> runs
+ * <code>doExecute</code> again with the original <code>INotification</code> unless
+ * overridden:
+ *
+ * <pre>
+ *		class RenameCommand extends UndoableCommand
+ *		{
+ *			#previousName:string;
+ *
+ *			protected async doExecute( notification:INotification ): Promise<void>
+ *			{
+ *				this.#previousName = this.documentProxy.getName();
+ *				this.documentProxy.setName(notification.getBody());
+ *			}
+ *
+ *			public async undo(): Promise<void>
+ *			{
+ *				this.documentProxy.setName(this.#previousName);
+ *			}
+ *		}
+ * </pre>
+ */
+export class UndoableCommand<MapType = DefaultNotificationMap, NameType extends NotificationName<MapType> = NotificationName<MapType>>
+	extends SimpleCommand<MapType, NameType>
+	implements IUndoableCommand<NotificationOf<MapType, NameType>>
+{
+	/**
+	 * The <code>INotification</code> the command was executed with.
+	 */
+	#notification?:NotificationOf<MapType, NameType>;
+
+	/**
+	 * Capture the <code>INotification</code>, run <code>doExecute</code> and record the command
+	 * in the <code>CommandHistory</code>.
+	 *
+	 * The command is not recorded if <code>doExecute</code> throws.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @param context
+	 * 		Details of the execution, passed on to <code>doExecute</code>.
+	 *
+	 * @return
+	 * 		The result of <code>doExecute</code>.
+	 *
+	 * @final
+	 */
+	public async execute( notification:NotificationOf<MapType, NameType>, context?:ICommandContext ): Promise<unknown>
+	{
+		this.#notification = notification;
+
+		const result = await this.doExecute(notification, context);
+
+		await this.history.record(this);
+
+		return result;
+	}
+
+	/**
+	 * Fulfill the use-case initiated by the given <code>INotification</code>.
+	 *
+	 * Override in your subclass, this is called by <code>execute</code> and by the default
+	 * <code>redo</code>, without a <code>context</code> when redoing.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @param context
+	 * 		Details of the execution, when executed by a <code>MacroCommand</code>.
+	 *
+	 * @return
+	 * 		An optional result, resolved by <code>execute</code>.
+	 *
+	 * @protected
+	 */
+	protected async doExecute( notification:NotificationOf<MapType, NameType>, context?:ICommandContext ): Promise<unknown>
+	{
+		return undefined;
+	}
+
+	/**
+	 * Revert the changes made by <code>doExecute</code>.
+	 *
+	 * Override in your subclass.
+	 */
+	public async undo(): Promise<void>
+	{
+
+	}
+
+	/**
+	 * Apply again the changes reverted by <code>undo</code>.
+	 *
+	 * Runs <code>doExecute</code> with the original <code>INotification</code> by default.
+	 */
+	public async redo(): Promise<void>
+	{
+		await this.doExecute(this.#notification);
+	}
+
+	/**
+	 * Create and send a <code>Notification</code>, from the undo, redo or group the command
+	 * runs in: the <code>UndoableCommand</code>s it executes join the group, or are not
+	 * recorded while undoing or redoing.
+	 *
+	 * @param args
+	 * 		The name, body (optional), type (optional) and options (optional) of the
+	 * 		notification to send.
+	 *
+	 * @return
+	 * 		A promise for whether the notification was cancelled with
+	 * 		<code>preventDefault</code>.
+	 */
+	public async sendNotification(...args:NotificationArgs<MapType>): Promise<boolean | void>
+	{
+		return this.history.sendFrom(this, args as NotificationArgs<DefaultNotificationMap>);
+	}
+
+	/**
+	 * Get the <code>INotification</code> the command was executed with.
+	 *
+	 * @return
+	 * 		The original <code>INotification</code>, <code>undefined</code> until executed.
+	 */
+	public getNotification():NotificationOf<MapType, NameType> | undefined
+	{
+		return this.#notification;
+	}
+
+	/**
+	 * The <code>CommandHistory</code> of the core, registered with the <code>Model</code> on
+	 * first use.
+	 *
+	 * @protected
+	 */
+	protected get history(): CommandHistory
+	{
+		let history = this.facade.retrieveProxy(CommandHistory.NAME) as CommandHistory;
+
+		if (!history)
+		{
+			history = new CommandHistory();
+			this.facade.registerProxy(history);
+		}
+
+		return history;
+	}
+}
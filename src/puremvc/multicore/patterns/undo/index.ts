@@ -0,0 +1,2 @@
+export * from "./CommandHistory";
+export * from "./UndoableCommand";
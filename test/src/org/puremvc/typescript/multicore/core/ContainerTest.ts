@@ -0,0 +1,121 @@
+///<reference path='../../../../../../../test/lib/YUITest.d.ts'/>
+///<reference path='../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * Test the PureMVC Container class.
+	 */
+	export class ContainerTest
+	{
+		/**
+		 * The name of the test case - if not provided, one is automatically generated by the
+		 * YUITest framework.
+		 */
+		name:string = "PureMVC Container class tests";
+
+		/**
+		 * Tests the Container singleton Factory Method.
+		 */
+		testGetInstance():void
+		{
+			// Test Factory Method
+			var container:puremvc.IContainer = puremvc.Container.getInstance('ContainerTestKey1');
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.Container,
+				container,
+				"Expecting instance extends Container"
+			);
+
+			YUITest.Assert.areSame
+			(
+				container,
+				puremvc.Container.getInstance('ContainerTestKey1'),
+				"Expecting the same instance for the same key"
+			);
+
+			puremvc.Container.removeContainer('ContainerTestKey1');
+		}
+
+		/**
+		 * Tests the lifetimes of the values created by providers.
+		 */
+		testLifetimes():void
+		{
+			var container:puremvc.IContainer = puremvc.Container.getInstance('ContainerTestKey2');
+
+			container.register( 'singleton', { useFactory: () => ({}) } );
+			container.register( 'scoped', { useFactory: () => ({}), lifetime: 'scoped' } );
+			container.register( 'transient', { useFactory: () => ({}), lifetime: 'transient' } );
+
+			var scope:puremvc.IContainer = container.createScope();
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				container.resolve( 'singleton' ),
+				scope.resolve( 'singleton' ),
+				"Expecting the same singleton value in every scope"
+			);
+
+			YUITest.Assert.areSame
+			(
+				scope.resolve( 'scoped' ),
+				scope.resolve( 'scoped' ),
+				"Expecting the same scoped value within a scope"
+			);
+
+			YUITest.Assert.areNotSame
+			(
+				container.resolve( 'scoped' ),
+				scope.resolve( 'scoped' ),
+				"Expecting another scoped value in another scope"
+			);
+
+			YUITest.Assert.areNotSame
+			(
+				scope.resolve( 'transient' ),
+				scope.resolve( 'transient' ),
+				"Expecting a new transient value on each resolution"
+			);
+
+			puremvc.Container.removeContainer('ContainerTestKey2');
+		}
+
+		/**
+		 * Tests that an override replaces a provider until restored.
+		 */
+		testOverride():void
+		{
+			var container:puremvc.IContainer = puremvc.Container.getInstance('ContainerTestKey3');
+
+			container.register( 'config', { useValue: 'real' } );
+
+			var restore:() => void = container.override( 'config', { useValue: 'fake' } );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'fake',
+				container.resolve( 'config' ),
+				"Expecting container.resolve( 'config' ) == 'fake'"
+			);
+
+			restore();
+
+			YUITest.Assert.areEqual
+			(
+				'real',
+				container.resolve( 'config' ),
+				"Expecting container.resolve( 'config' ) == 'real'"
+			);
+
+			puremvc.Container.removeContainer('ContainerTestKey3');
+		}
+	}
+}
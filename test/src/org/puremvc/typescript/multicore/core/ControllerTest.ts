@@ -4,6 +4,7 @@
 ///<reference path='ControllerTestVO.ts'/>
 ///<reference path='ControllerTestCommand2.ts'/>
 ///<reference path='ControllerTestCommand.ts'/>
+///<reference path='ControllerTestAsyncCommand.ts'/>
 
 module test
 {
@@ -214,5 +215,492 @@ module test
 
 			puremvc.Controller.removeController('ControllerTestKey5');
 		}
+
+		/**
+		 * Tests registering several Commands for the same Notification.
+		 *
+		 * Tests that every registered Command is executed, and that removing one registration
+		 * through its handle leaves the others in place.
+		 */
+		async testRegisterSeveralCommands():Promise<void>
+		{
+			// Fetch the controller, register ControllerTestCommand2 twice to handle 'ControllerTest3' notifications
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey6');
+			var registration1:puremvc.ICommandRegistration = controller.registerCommand( 'ControllerTest3', ControllerTestCommand2 );
+			var registration2:puremvc.ICommandRegistration = controller.registerCommand( 'ControllerTest3', ControllerTestCommand2 );
+
+			// Create a 'ControllerTest3' notification
+			var vo:ControllerTestVO = new ControllerTestVO( 12 );
+			var notification:puremvc.INotification = new puremvc.Notification( 'ControllerTest3', vo );
+
+			// Both commands accumulate into the vo
+			await controller.executeCommand(notification);
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				48,
+				vo.result,
+				"Expecting vo.result == 48"
+			);
+
+			// Remove the first registration only
+			YUITest.Assert.isTrue
+			(
+				registration1.remove(),
+				"Expecting registration1.remove() === true"
+			);
+
+			vo.result = 0;
+			await controller.executeCommand(notification);
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				24,
+				vo.result,
+				"Expecting vo.result == 24"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				controller.hasCommand('ControllerTest3'),
+				"Expecting controller.hasCommand('ControllerTest3') === true"
+			);
+
+			// Removing the last registration removes the mapping
+			registration2.remove();
+
+			YUITest.Assert.isFalse
+			(
+				controller.hasCommand('ControllerTest3'),
+				"Expecting controller.hasCommand('ControllerTest3') === false"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey6');
+		}
+
+		/**
+		 * Tests Command interceptors.
+		 *
+		 * Tests that an interceptor sees the Command class it wraps, and that not calling
+		 * <code>next</code> prevents the Command from running.
+		 */
+		async testCommandInterceptor():Promise<void>
+		{
+			// Fetch the controller, register the ControllerTestCommand to handle 'ControllerTest4' notifications
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey7');
+			controller.registerCommand( 'ControllerTest4', ControllerTestCommand );
+
+			// An interceptor remembering the intercepted class and short-circuiting the execution
+			var interceptedClass:any = null;
+			var interceptor:puremvc.ICommandInterceptor =
+			{
+				intercept: ( invocation:puremvc.ICommandInvocation, next:() => Promise<void> ):Promise<void> =>
+				{
+					interceptedClass = invocation.commandClass;
+					return Promise.resolve();
+				}
+			};
+
+			controller.addCommandInterceptor( interceptor );
+
+			// Create a 'ControllerTest4' notification
+			var vo:ControllerTestVO = new ControllerTestVO( 12 );
+			var notification:puremvc.INotification = new puremvc.Notification( 'ControllerTest4', vo );
+
+			await controller.executeCommand(notification);
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				ControllerTestCommand,
+				interceptedClass,
+				"Expecting interceptedClass === ControllerTestCommand"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				vo.result,
+				"Expecting vo.result == 0"
+			);
+
+			// Once removed the command runs again
+			controller.removeCommandInterceptor( interceptor );
+			await controller.executeCommand(notification);
+
+			YUITest.Assert.areEqual
+			(
+				24,
+				vo.result,
+				"Expecting vo.result == 24"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey7');
+		}
+
+		/**
+		 * Tests cancelling the execution of a Command through the <code>AbortSignal</code> of
+		 * its notification.
+		 *
+		 * An already aborted notification rejects with a <code>NotificationAbortError</code>
+		 * without executing the Command, one aborted meanwhile lets the Command stop early.
+		 */
+		async testAbort():Promise<void>
+		{
+			// Fetch the controller, register the ControllerTestAsyncCommand to handle 'ControllerTest6' notifications
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey14');
+			controller.registerCommand( 'ControllerTest6', ControllerTestAsyncCommand );
+
+			var vo:ControllerTestVO = new ControllerTestVO( 1 );
+			var aborted:AbortController = new AbortController();
+			aborted.abort();
+
+			var error:any = null;
+
+			try
+			{
+				await controller.executeCommand( new puremvc.Notification( 'ControllerTest6', vo, undefined, aborted.signal ) );
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.NotificationAbortError,
+				error,
+				"Expecting error instanceof NotificationAbortError"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				vo.log.length,
+				"Expecting vo.log.length == 0"
+			);
+
+			// Abort while the Command runs
+			var abortController:AbortController = new AbortController();
+			var execution:Promise<void> = controller.executeCommand( new puremvc.Notification( 'ControllerTest6', vo, undefined, abortController.signal ) );
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 1 ) );
+			abortController.abort();
+			await execution;
+
+			YUITest.Assert.areEqual
+			(
+				'start 1',
+				vo.log.join(),
+				"Expecting vo.log == 'start 1'"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey14');
+		}
+
+		/**
+		 * Tests that the <code>Controller</code> uses a <code>SystemClock</code> until another
+		 * <code>IClock</code> is set, and that Command timeouts then fire through it.
+		 */
+		async testClock():Promise<void>
+		{
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey8');
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.SystemClock,
+				controller.getClock(),
+				"Expecting controller.getClock() instanceof SystemClock"
+			);
+
+			// A clock only firing its timeouts when told to
+			var callbacks:Array<() => void> = [];
+			var delays:number[] = [];
+			var clock:puremvc.IClock =
+			{
+				now: ():number => 0,
+				setTimeout: ( callback:() => void, delay:number ):any =>
+				{
+					delays.push( delay );
+					return callbacks.push( callback );
+				},
+				clearTimeout: ( handle:any ):void => {}
+			};
+
+			controller.setClock( clock );
+
+			YUITest.Assert.areSame
+			(
+				clock,
+				controller.getClock(),
+				"Expecting controller.getClock() === clock"
+			);
+
+			// Execute a Command with a timeout, then fire the timeout
+			controller.registerCommand( 'ControllerTest7', ControllerTestAsyncCommand, { timeout: 50 } );
+
+			var vo:ControllerTestVO = new ControllerTestVO( 1 );
+			var execution:Promise<void> = controller.executeCommand( new puremvc.Notification( 'ControllerTest7', vo ) );
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 1 ) );
+
+			YUITest.Assert.areEqual
+			(
+				'50',
+				delays.join(),
+				"Expecting the clock to time the 50 ms timeout"
+			);
+
+			callbacks[0]();
+
+			var error:any = null;
+
+			try
+			{
+				await execution;
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.CommandTimeoutError,
+				error,
+				"Expecting error instanceof CommandTimeoutError"
+			);
+
+			// The timed out Command saw its signal aborted, and stopped
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 20 ) );
+
+			YUITest.Assert.areEqual
+			(
+				'start 1',
+				vo.log.join(),
+				"Expecting vo.log == 'start 1'"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey8');
+		}
+
+		/**
+		 * Tests that <code>ICommand</code> constructors are told from
+		 * <code>CommandLoader</code>s.
+		 */
+		testIsCommandClass():void
+		{
+			// test assertions
+			YUITest.Assert.isTrue
+			(
+				puremvc.Controller.isCommandClass( ControllerTestCommand ),
+				"Expecting puremvc.Controller.isCommandClass( ControllerTestCommand ) === true"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				puremvc.Controller.isCommandClass( () => Promise.resolve( ControllerTestCommand ) ),
+				"Expecting puremvc.Controller.isCommandClass( loader ) === false"
+			);
+		}
+
+		/**
+		 * Tests registering a Command through a <code>CommandLoader</code>.
+		 *
+		 * The Command is loaded when first needed, then executed like a Command registered
+		 * directly, and the loader is not called again.
+		 */
+		async testLazyCommand():Promise<void>
+		{
+			// Fetch the controller, register a loader of the ControllerTestCommand to handle 'ControllerTest8' notifications
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey15');
+			var loads:number = 0;
+
+			controller.registerCommand( 'ControllerTest8', ():Promise<any> =>
+			{
+				loads++;
+				return Promise.resolve( ControllerTestCommand );
+			});
+
+			// test assertions, nothing is loaded until needed
+			YUITest.Assert.areEqual
+			(
+				0,
+				loads,
+				"Expecting loads == 0"
+			);
+
+			var vo:ControllerTestVO = new ControllerTestVO( 12 );
+			var notification:puremvc.INotification = new puremvc.Notification( 'ControllerTest8', vo );
+
+			await controller.executeCommand(notification);
+
+			YUITest.Assert.areEqual
+			(
+				24,
+				vo.result,
+				"Expecting vo.result == 24"
+			);
+
+			vo.result = 0;
+			await controller.executeCommand(notification);
+
+			YUITest.Assert.areEqual
+			(
+				24,
+				vo.result,
+				"Expecting vo.result == 24"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				loads,
+				"Expecting loads == 1"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey15');
+		}
+
+		/**
+		 * Tests the concurrency settings and the queue status.
+		 */
+		testConcurrency():void
+		{
+			var controller:puremvc.IController = puremvc.Controller.getInstance('ControllerTestKey9');
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'parallel',
+				controller.getConcurrency('ControllerTest').mode,
+				"Expecting controller.getConcurrency('ControllerTest').mode === 'parallel'"
+			);
+
+			controller.setConcurrency( 'ControllerTest', { mode: 'serial' } );
+
+			YUITest.Assert.areEqual
+			(
+				'serial',
+				controller.getConcurrency('ControllerTest').mode,
+				"Expecting controller.getConcurrency('ControllerTest').mode === 'serial'"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				controller.getQueueStatus('ControllerTest').length,
+				"Expecting controller.getQueueStatus('ControllerTest').length === 0"
+			);
+
+			puremvc.Controller.removeController('ControllerTestKey9');
+		}
+
+		/**
+		 * Tests that the commands of notifications in <code>parallel</code> mode run at the
+		 * same time.
+		 */
+		async testParallelConcurrency():Promise<void>
+		{
+			var log:string = await this.executeTwice( 'ControllerTestKey10', 'parallel' );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'start 1,start 2,end 1,end 2',
+				log,
+				"Expecting log == 'start 1,start 2,end 1,end 2'"
+			);
+		}
+
+		/**
+		 * Tests that the commands of notifications in <code>serial</code> mode run one after
+		 * the other.
+		 */
+		async testSerialConcurrency():Promise<void>
+		{
+			var log:string = await this.executeTwice( 'ControllerTestKey11', 'serial' );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'start 1,end 1,start 2,end 2',
+				log,
+				"Expecting log == 'start 1,end 1,start 2,end 2'"
+			);
+		}
+
+		/**
+		 * Tests that a notification in <code>drop</code> mode arriving while another one is
+		 * handled is ignored.
+		 */
+		async testDropConcurrency():Promise<void>
+		{
+			var log:string = await this.executeTwice( 'ControllerTestKey12', 'drop' );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'start 1,end 1',
+				log,
+				"Expecting log == 'start 1,end 1'"
+			);
+		}
+
+		/**
+		 * Tests that a notification in <code>replace</code> mode arriving while another one is
+		 * handled aborts it.
+		 */
+		async testReplaceConcurrency():Promise<void>
+		{
+			var log:string = await this.executeTwice( 'ControllerTestKey13', 'replace' );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'start 1,start 2,end 2',
+				log,
+				"Expecting log == 'start 1,start 2,end 2'"
+			);
+		}
+
+		/**
+		 * Execute the <code>ControllerTestAsyncCommand</code> for two notifications in a
+		 * concurrency mode, the second arriving while the first is handled.
+		 *
+		 * @param key
+		 * 		The multiton key of the <code>Controller</code>.
+		 *
+		 * @param mode
+		 * 		The concurrency mode of the notifications.
+		 *
+		 * @return
+		 * 		The log of the executions.
+		 */
+		async executeTwice( key:string, mode:puremvc.CommandConcurrencyMode ):Promise<string>
+		{
+			var controller:puremvc.IController = puremvc.Controller.getInstance(key);
+			controller.registerCommand( 'ControllerTest5', ControllerTestAsyncCommand );
+			controller.setConcurrency( 'ControllerTest5', { mode: mode } );
+
+			// Both notifications log into the same array
+			var vo1:ControllerTestVO = new ControllerTestVO( 1 );
+			var vo2:ControllerTestVO = new ControllerTestVO( 2 );
+			vo2.log = vo1.log;
+
+			var execution1:Promise<void> = controller.executeCommand( new puremvc.Notification( 'ControllerTest5', vo1 ) );
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 1 ) );
+			var execution2:Promise<void> = controller.executeCommand( new puremvc.Notification( 'ControllerTest5', vo2 ) );
+
+			await Promise.all( [execution1, execution2] );
+
+			puremvc.Controller.removeController(key);
+
+			return vo1.log.join();
+		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+///<reference path='../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='ControllerTestVO.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * An asynchronous <code>SimpleCommand</code> subclass used by <code>ControllerTest</code>.
+	 */
+	export class ControllerTestAsyncCommand
+		extends puremvc.SimpleCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Log the start of the execution, then its end a little later unless aborted meanwhile.
+		 *
+		 * @param notification
+		 * 		The notification carrying the ControllerTestVO
+		 *
+		 * @param context
+		 * 		The context of the execution, carrying its AbortSignal
+		 */
+		async execute( notification:puremvc.INotification, context?:puremvc.ICommandContext ):Promise<void>
+		{
+			var vo:ControllerTestVO = notification.getBody();
+			vo.log.push( 'start ' + vo.input );
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 10 ) );
+
+			if ( context && context.signal && context.signal.aborted )
+				return;
+
+			vo.log.push( 'end ' + vo.input );
+		}
+	}
+}
@@ -27,5 +27,10 @@ module test
 		 * Will be used to read the result calculated by the command.
 		 */
 		result:number = 0;
+
+		/**
+		 * Will be used to read the order the executions started and ended in.
+		 */
+		log:string[] = [];
 	}
 }
\ No newline at end of file
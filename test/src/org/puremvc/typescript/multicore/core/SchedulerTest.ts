@@ -0,0 +1,181 @@
+///<reference path='../../../../../../../test/lib/YUITest.d.ts'/>
+///<reference path='../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * Test the PureMVC Scheduler class.
+	 */
+	export class SchedulerTest
+	{
+		/**
+		 * The name of the test case - if not provided, one is automatically generated by the
+		 * YUITest framework.
+		 */
+		name:string = "PureMVC Scheduler class tests";
+
+		/**
+		 * Tests the Scheduler singleton Factory Method.
+		 */
+		testGetInstance():void
+		{
+			// Test Factory Method
+			var scheduler:puremvc.IScheduler = puremvc.Scheduler.getInstance('SchedulerTestKey1');
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.Scheduler,
+				scheduler,
+				"Expecting instance extends Scheduler"
+			);
+
+			YUITest.Assert.areSame
+			(
+				scheduler,
+				puremvc.Scheduler.getInstance('SchedulerTestKey1'),
+				"Expecting the same instance for the same key"
+			);
+
+			puremvc.Scheduler.removeScheduler('SchedulerTestKey1');
+		}
+
+		/**
+		 * Tests pausing, resuming and cancelling a job on a fake clock.
+		 */
+		testPauseAndResume():void
+		{
+			var time:number = 0;
+			var timers:any[] = [];
+			var clock:puremvc.IClock =
+			{
+				now: ():number => time,
+				setTimeout: ( callback:() => void, delay:number ):any => timers.push( { callback: callback, at: time + delay } ),
+				clearTimeout: ( handle:any ):void => { timers[handle - 1] = null; }
+			};
+
+			var scheduler:puremvc.IScheduler = puremvc.Scheduler.getInstance('SchedulerTestKey2');
+			scheduler.setClock( clock );
+
+			var job:puremvc.IScheduledJob = scheduler.scheduleInterval( 'SchedulerTest', 100 );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				100,
+				job.nextRun,
+				"Expecting job.nextRun === 100"
+			);
+
+			time = 40;
+			job.pause();
+
+			YUITest.Assert.areEqual
+			(
+				'paused',
+				job.state,
+				"Expecting job.state === 'paused'"
+			);
+
+			time = 1000;
+			job.resume();
+
+			YUITest.Assert.areEqual
+			(
+				1060,
+				job.nextRun,
+				"Expecting job.nextRun === 1060"
+			);
+
+			puremvc.Scheduler.removeScheduler('SchedulerTestKey2');
+
+			YUITest.Assert.areEqual
+			(
+				'cancelled',
+				job.state,
+				"Expecting job.state === 'cancelled'"
+			);
+		}
+
+		/**
+		 * Tests that a delay over the longest a timer waits is waited in several timers, the
+		 * notification only sent once it elapsed.
+		 */
+		testLongDelay():void
+		{
+			var time:number = 0;
+			var timers:any[] = [];
+			var clock:puremvc.IClock =
+			{
+				now: ():number => time,
+				setTimeout: ( callback:() => void, delay:number ):any => timers.push( { callback: callback, delay: delay } ),
+				clearTimeout: ( handle:any ):void => { timers[handle - 1] = null; }
+			};
+
+			var view:puremvc.IView = puremvc.View.getInstance('SchedulerTestKey3');
+			var sent:number = 0;
+			view.registerObserver( 'SchedulerTest', new puremvc.Observer( () => { sent++; }, this ) );
+
+			var scheduler:puremvc.IScheduler = puremvc.Scheduler.getInstance('SchedulerTestKey3');
+			scheduler.setClock( clock );
+
+			var delay:number = puremvc.Scheduler.MAX_DELAY + 1000;
+			var job:puremvc.IScheduledJob = scheduler.scheduleOnce( 'SchedulerTest', delay );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				puremvc.Scheduler.MAX_DELAY,
+				timers[0].delay,
+				"Expecting timers[0].delay === Scheduler.MAX_DELAY"
+			);
+
+			// The first timer elapses, the job waits the rest of its delay
+			time = puremvc.Scheduler.MAX_DELAY;
+			timers[0].callback();
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				sent,
+				"Expecting sent === 0"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1000,
+				timers[1].delay,
+				"Expecting timers[1].delay === 1000"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				delay,
+				job.nextRun,
+				"Expecting job.nextRun === delay"
+			);
+
+			time = delay;
+			timers[1].callback();
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				sent,
+				"Expecting sent === 1"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				'done',
+				job.state,
+				"Expecting job.state === 'done'"
+			);
+
+			puremvc.Scheduler.removeScheduler('SchedulerTestKey3');
+			puremvc.View.removeView('SchedulerTestKey3');
+		}
+	}
+}
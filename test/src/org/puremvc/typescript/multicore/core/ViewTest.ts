@@ -583,6 +583,552 @@ module test
 			puremvc.View.removeView('ViewTestKey11');
 		}
 
+		/**
+		 * Tests the <code>IClock</code> timing the rate limited mediator interests.
+		 */
+		testClock():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey12');
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.SystemClock,
+				view.getClock(),
+				"Expecting view.getClock() instanceof SystemClock"
+			);
+
+			var clock:puremvc.IClock =
+			{
+				now: ():number => 0,
+				setTimeout: ( callback:() => void, delay:number ):any => 0,
+				clearTimeout: ( handle:any ):void => {}
+			};
+
+			view.setClock( clock );
+
+			YUITest.Assert.areSame
+			(
+				clock,
+				view.getClock(),
+				"Expecting view.getClock() === clock"
+			);
+
+			puremvc.View.removeView('ViewTestKey12');
+		}
+
+		/**
+		 * Tests the order of the observers registered for a name and for the patterns
+		 * matching it.
+		 */
+		testPatternObservers():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey13');
+
+			var exact:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var single:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var deep:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var any:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+
+			view.registerObserver( "**", any );
+			view.registerObserver( "user/**", deep );
+			view.registerObserver( "user/*", single );
+			view.registerObserver( "user/login", exact );
+
+			var observers:puremvc.IObserver[] = view.getObservers( "user/login" );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				4,
+				observers.length,
+				"Expecting observers.length == 4"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				observers[0] === exact && observers[1] === single && observers[2] === deep && observers[3] === any,
+				"Expecting exact, single, deep and any observers in that order"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				view.getObservers( "user/login/success" ).length,
+				"Expecting view.getObservers( 'user/login/success' ).length == 2"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.getObservers( "user" ).length,
+				"Expecting view.getObservers( 'user' ).length == 1"
+			);
+
+			view.removeObserver( "user/**", this );
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.getObservers( "user/login/success" ).length,
+				"Expecting view.getObservers( 'user/login/success' ).length == 1"
+			);
+
+			puremvc.View.removeView('ViewTestKey13');
+		}
+
+		/**
+		 * Tests the order of observers registered with priorities.
+		 */
+		testObserverPriority():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey14');
+
+			var first:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var second:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var high:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+			var low:puremvc.IObserver = new puremvc.Observer( () => {}, this );
+
+			view.registerObserver( ViewTest.NOTE1, low, -1 );
+			view.registerObserver( ViewTest.NOTE1, first );
+			view.registerObserver( ViewTest.NOTE1, high, 10 );
+			view.registerObserver( ViewTest.NOTE1, second );
+
+			var subscriptions:puremvc.IObserverSubscription[] = view.getSubscriptions( ViewTest.NOTE1 );
+
+			// test assertions
+			YUITest.Assert.isTrue
+			(
+				subscriptions[0].observer === high && subscriptions[1].observer === first && subscriptions[2].observer === second && subscriptions[3].observer === low,
+				"Expecting high, first, second and low observers in that order"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				10,
+				subscriptions[0].priority,
+				"Expecting subscriptions[0].priority == 10"
+			);
+
+			puremvc.View.removeView('ViewTestKey14');
+		}
+
+		/**
+		 * Tests the <code>IErrorPolicy</code> accessors.
+		 */
+		testErrorPolicy():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey15');
+
+			// test assertions
+			YUITest.Assert.isUndefined
+			(
+				view.getErrorPolicy().isolate,
+				"Expecting view.getErrorPolicy().isolate === undefined"
+			);
+
+			var policy:puremvc.IErrorPolicy = { isolate: true, rethrow: true };
+
+			view.setErrorPolicy( policy );
+
+			YUITest.Assert.areSame
+			(
+				policy,
+				view.getErrorPolicy(),
+				"Expecting view.getErrorPolicy() === policy"
+			);
+
+			puremvc.View.removeView('ViewTestKey15');
+		}
+
+		/**
+		 * Tests registering and removing a <code>WeakObserver</code>.
+		 */
+		testWeakObserver():void
+		{
+			// Get the Multiton View instance and register a WeakObserver
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey16');
+			var context:Object = {};
+			var observer:puremvc.WeakObserver = new puremvc.WeakObserver( () => {}, context );
+
+			view.registerObserver( ViewTest.NOTE1, observer );
+
+			// test assertions
+			YUITest.Assert.isFalse
+			(
+				observer.isCollected(),
+				"Expecting observer.isCollected() === false"
+			);
+
+			YUITest.Assert.areSame
+			(
+				observer,
+				view.getObservers( ViewTest.NOTE1 )[0],
+				"Expecting view.getObservers( ViewTest.NOTE1 )[0] === observer"
+			);
+
+			view.removeObserver( ViewTest.NOTE1, context );
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE1 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE1 ).length == 0"
+			);
+
+			puremvc.View.removeView('ViewTestKey16');
+		}
+
+		/**
+		 * Tests that the subscription of a <code>WeakObserver</code> is dropped once its
+		 * context is garbage collected.
+		 *
+		 * Only runs where the garbage collector is exposed, as by <code>node --expose-gc</code>.
+		 */
+		async testWeakObserverCollected():Promise<void>
+		{
+			var gc:() => void = (<any> globalThis).gc;
+
+			if ( typeof gc !== "function" )
+				return;
+
+			// Get the Multiton View instance and register a WeakObserver whose context is not kept
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey24');
+
+			( () => view.registerObserver( ViewTest.NOTE1, new puremvc.WeakObserver( () => {}, {} ) ) )();
+
+			// Collect the context, then let the View drop the subscription
+			for ( var i:number = 0; i < 5 && view.getObservers( ViewTest.NOTE1 ).length > 0; i++ )
+			{
+				await new Promise( ( resolve:() => void ) => setTimeout( resolve, 10 ) );
+				gc();
+			}
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 10 ) );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE1 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE1 ).length == 0"
+			);
+
+			puremvc.View.removeView('ViewTestKey24');
+		}
+
+		/**
+		 * Tests reporting the observers of a removed <code>Mediator</code>.
+		 */
+		testReportAbandonedObservers():void
+		{
+			// Get the Multiton View instance and leave an observer of a removed Mediator behind
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey17');
+			var mediator:puremvc.IMediator = new puremvc.Mediator( 'ViewTestAbandonedMediator' );
+
+			view.registerMediator( mediator );
+			view.registerObserver( ViewTest.NOTE1, new puremvc.Observer( () => {}, mediator ) );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.reportAbandonedObservers().length,
+				"Expecting view.reportAbandonedObservers().length == 0"
+			);
+
+			view.removeMediator( 'ViewTestAbandonedMediator' );
+
+			var report:puremvc.IAbandonedObserver[] = view.reportAbandonedObservers();
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				report.length,
+				"Expecting view.reportAbandonedObservers().length == 1"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				"unregistered-mediator",
+				report[0].reason,
+				"Expecting report[0].reason == 'unregistered-mediator'"
+			);
+
+			puremvc.View.removeView('ViewTestKey17');
+		}
+
+		/**
+		 * Tests the duplicate policy and the precise removal of observers.
+		 */
+		testPreciseObserverRemoval():void
+		{
+			// Get the Multiton View instance and register observers with the same context
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey18');
+			var method:Function = () => {};
+			var first:puremvc.IObserverSubscription = view.registerObserver( ViewTest.NOTE1, new puremvc.Observer( method, this ) );
+
+			view.registerObserver( ViewTest.NOTE2, new puremvc.Observer( method, this ) );
+			view.setDuplicatePolicy( "ignore" );
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				first,
+				view.registerObserver( ViewTest.NOTE1, new puremvc.Observer( method, this ) ),
+				"Expecting the duplicate to be ignored"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				view.removeSubscription( first ),
+				"Expecting view.removeSubscription( first ) === true"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				view.removeSubscription( first ),
+				"Expecting view.removeSubscription( first ) === false"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.removeAllObservers( this ).length,
+				"Expecting view.removeAllObservers( this ).length == 1"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE2 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE2 ).length == 0"
+			);
+
+			puremvc.View.removeView('ViewTestKey18');
+		}
+
+		/**
+		 * Tests adding and removing the interests of a registered <code>Mediator</code>.
+		 */
+		testMediatorInterests():void
+		{
+			// Get the Multiton View instance and register a Mediator without interests
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey19');
+
+			view.registerMediator( new puremvc.Mediator( 'ViewTestInterestsMediator' ) );
+
+			// test assertions
+			YUITest.Assert.isTrue
+			(
+				view.addMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ),
+				"Expecting view.addMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ) === true"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				view.addMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ),
+				"Expecting view.addMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ) === false"
+			);
+
+			view.addMediatorInterest( 'ViewTestInterestsMediator', { name: ViewTest.NOTE2, priority: 1 } );
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				view.listMediatorInterests( 'ViewTestInterestsMediator' ).length,
+				"Expecting view.listMediatorInterests( 'ViewTestInterestsMediator' ).length == 2"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				view.removeMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ),
+				"Expecting view.removeMediatorInterest( 'ViewTestInterestsMediator', ViewTest.NOTE1 ) === true"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE1 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE1 ).length == 0"
+			);
+
+			// removing the Mediator removes the interests it was registered for
+			view.removeMediator( 'ViewTestInterestsMediator' );
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE2 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE2 ).length == 0"
+			);
+
+			puremvc.View.removeView('ViewTestKey19');
+		}
+
+		/**
+		 * Tests that an error an observer reported itself is not reported again, whatever its
+		 * type, and that a failing handler does not stop the reporting.
+		 */
+		async testReportFailureOnce():Promise<void>
+		{
+			// Get the Multiton View instance, with a handler counting the reports then throwing
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey20');
+			var reports:number = 0;
+			var failures:number = 0;
+
+			view.setErrorPolicy( { isolate: true, handler: () => { reports++; throw Error( 'handler' ); } } );
+			view.registerObserver( puremvc.View.OBSERVER_FAILED, new puremvc.Observer( () => failures++, this ) );
+
+			// An observer reporting its error itself before throwing it, as the Controller does
+			view.registerObserver( ViewTest.NOTE1, new puremvc.Observer( async ( notification:puremvc.INotification ) =>
+			{
+				await view.reportFailure( this, notification, 'boom' );
+				throw 'boom';
+			}, this ) );
+
+			await view.notifyObservers( new puremvc.Notification( ViewTest.NOTE1 ) );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				1,
+				reports,
+				"Expecting reports == 1"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				failures,
+				"Expecting failures == 1"
+			);
+
+			puremvc.View.removeView('ViewTestKey20');
+		}
+
+		/**
+		 * Tests that a failing <code>View.OBSERVER_FAILED</code> observer does not replace the
+		 * error it is notified of.
+		 */
+		async testReportFailureListenerError():Promise<void>
+		{
+			// Get the Multiton View instance, with a failing observer and a failing report observer
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey23');
+
+			view.registerObserver( puremvc.View.OBSERVER_FAILED, new puremvc.Observer( () => { throw Error( 'report' ); }, this ) );
+			view.registerObserver( ViewTest.NOTE1, new puremvc.Observer( () => { throw Error( 'original' ); }, this ) );
+
+			var error:Error = null;
+
+			try
+			{
+				await view.notifyObservers( new puremvc.Notification( ViewTest.NOTE1 ) );
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'original',
+				error && error.message,
+				"Expecting error.message == 'original'"
+			);
+
+			puremvc.View.removeView('ViewTestKey23');
+		}
+
+		/**
+		 * Tests that a <code>Mediator</code> refused by the <code>"error"</code> duplicate
+		 * policy is left unregistered, without any observer.
+		 */
+		testRegisterMediatorRollback():void
+		{
+			// Get the Multiton View instance, with an observer duplicating the second interest of ViewTestMediator2
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey21');
+			var mediator:ViewTestMediator2 = new ViewTestMediator2( this );
+
+			view.setDuplicatePolicy( 'error' );
+			view.registerObserver( ViewTest.NOTE2, new puremvc.Observer( mediator.handleNotification, mediator ) );
+
+			var error:Error = null;
+
+			try
+			{
+				view.registerMediator( mediator );
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.isNotNull
+			(
+				error,
+				"Expecting view.registerMediator( mediator ) to throw"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				view.hasMediator( ViewTestMediator2.NAME ),
+				"Expecting view.hasMediator( ViewTestMediator2.NAME ) === false"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE1 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE1 ).length == 0"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.getObservers( ViewTest.NOTE2 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE2 ).length == 1"
+			);
+
+			puremvc.View.removeView('ViewTestKey21');
+		}
+
+		/**
+		 * Tests that removing a <code>Mediator</code> leaves the subscriptions the
+		 * <code>"ignore"</code> duplicate policy kept for other observers.
+		 */
+		testRemoveMediatorIgnoredDuplicate():void
+		{
+			// Get the Multiton View instance, with an observer equivalent to the first interest of ViewTestMediator2
+			var view:puremvc.IView = puremvc.View.getInstance('ViewTestKey22');
+			var mediator:ViewTestMediator2 = new ViewTestMediator2( this );
+			var observer:puremvc.IObserver = new puremvc.Observer( mediator.handleNotification, mediator );
+
+			view.setDuplicatePolicy( 'ignore' );
+			view.registerObserver( ViewTest.NOTE1, observer );
+			view.registerMediator( mediator );
+			view.removeMediator( ViewTestMediator2.NAME );
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				observer,
+				view.getObservers( ViewTest.NOTE1 )[0],
+				"Expecting view.getObservers( ViewTest.NOTE1 )[0] === observer"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( ViewTest.NOTE2 ).length,
+				"Expecting view.getObservers( ViewTest.NOTE2 ).length == 0"
+			);
+
+			puremvc.View.removeView('ViewTestKey22');
+		}
+
 		/**
 		 * @constant
 		 */
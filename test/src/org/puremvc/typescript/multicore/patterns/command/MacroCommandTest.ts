@@ -3,6 +3,7 @@
 
 ///<reference path='MacroCommandTestSub.ts'/>
 ///<reference path='MacroCommandTestCommand.ts'/>
+///<reference path='MacroCommandTestRollbackCommand.ts'/>
 ///<reference path='MacroCommandTestVO.ts'/>
 
 module test
@@ -91,5 +92,134 @@ module test
 				"Expecting vo.result2 == 25"
 			);
 		}
+
+		/**
+		 * Tests the default failure policy of sequential and parallel <code>MacroCommand</code>s
+		 * and that it can be changed.
+		 */
+		testFailurePolicy():void
+		{
+			var parallel:puremvc.MacroCommand = new puremvc.MacroCommand();
+			var sequential:puremvc.MacroCommand = new puremvc.MacroCommand( true );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				"ignore",
+				parallel.getFailurePolicy(),
+				"Expecting parallel.getFailurePolicy() == 'ignore'"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				"failFast",
+				sequential.getFailurePolicy(),
+				"Expecting sequential.getFailurePolicy() == 'failFast'"
+			);
+
+			sequential.setFailurePolicy( "continue" );
+
+			YUITest.Assert.areEqual
+			(
+				"continue",
+				sequential.getFailurePolicy(),
+				"Expecting sequential.getFailurePolicy() == 'continue'"
+			);
+		}
+
+		/**
+		 * Tests the default concurrency of sequential and parallel <code>MacroCommand</code>s
+		 * and that it can be changed.
+		 */
+		testConcurrency():void
+		{
+			var parallel:puremvc.MacroCommand = new puremvc.MacroCommand();
+			var sequential:puremvc.MacroCommand = new puremvc.MacroCommand( true );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				Infinity,
+				parallel.getConcurrency(),
+				"Expecting parallel.getConcurrency() == Infinity"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				1,
+				sequential.getConcurrency(),
+				"Expecting sequential.getConcurrency() == 1"
+			);
+
+			parallel.setConcurrency( 2 );
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				parallel.getConcurrency(),
+				"Expecting parallel.getConcurrency() == 2"
+			);
+		}
+
+		/**
+		 * Tests that a failed <code>MacroCommand</code> compensates its completed
+		 * <i>SubCommands</i>, last completed first, and sends a <code>MACRO_ROLLED_BACK</code>
+		 * notification.
+		 */
+		async testRollback():Promise<void>
+		{
+			// Observe the MACRO_ROLLED_BACK notification
+			var rollback:puremvc.IMacroRollback = null;
+			var view:puremvc.IView = puremvc.View.getInstance('MacroCommandTestKey2');
+			view.registerObserver( puremvc.MacroCommand.MACRO_ROLLED_BACK, new puremvc.Observer( ( notification:puremvc.INotification ) => { rollback = notification.getBody(); }, this ) );
+
+			// Create the MacroCommand, its SubCommands complete in reverse list order
+			var vo:MacroCommandTestVO = new MacroCommandTestVO(5);
+			var notification:puremvc.INotification = new puremvc.Notification( 'MacroCommandRollbackTest', vo );
+			var command:puremvc.MacroCommand = new MacroCommandTestRollbackCommand();
+			command.initializeNotifier('MacroCommandTestKey2');
+
+			var error:any = null;
+
+			try
+			{
+				await command.execute( notification );
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.isInstanceOf
+			(
+				puremvc.MacroCommandError,
+				error,
+				"Expecting error instanceof MacroCommandError"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				"1,2",
+				vo.compensated.join(),
+				"Expecting vo.compensated == [1, 2]"
+			);
+
+			YUITest.Assert.areSame
+			(
+				error.rollback,
+				rollback,
+				"Expecting the MACRO_ROLLED_BACK body === error.rollback"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				rollback.compensated.length,
+				"Expecting rollback.compensated.length == 2"
+			);
+
+			puremvc.Facade.removeCore('MacroCommandTestKey2');
+		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='MacroCommandTestVO.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A slow compensated <code>SimpleCommand</code> subclass used by
+	 * <code>MacroCommandTestRollbackCommand</code>.
+	 */
+	export class MacroCommandTestCompensate1Command
+		extends puremvc.SimpleCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Complete after the <code>MacroCommandTestCompensate2Command</code>.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the <code>MacroCommandTestVO</code>.
+		 */
+		execute( notification:puremvc.INotification ):Promise<void>
+		{
+			return new Promise( ( resolve:() => void ) => setTimeout( resolve, 10 ) );
+		}
+
+		/**
+		 * Record the compensation.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the <code>MacroCommandTestVO</code>.
+		 */
+		compensate( notification:puremvc.INotification ):Promise<void>
+		{
+			var vo:MacroCommandTestVO = notification.getBody();
+			vo.compensated.push( 1 );
+
+			return Promise.resolve();
+		}
+	}
+}
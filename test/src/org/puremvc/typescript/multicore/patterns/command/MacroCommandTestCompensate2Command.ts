@@ -0,0 +1,42 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='MacroCommandTestVO.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A fast compensated <code>SimpleCommand</code> subclass used by
+	 * <code>MacroCommandTestRollbackCommand</code>.
+	 */
+	export class MacroCommandTestCompensate2Command
+		extends puremvc.SimpleCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Complete at once.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the <code>MacroCommandTestVO</code>.
+		 */
+		execute( notification:puremvc.INotification ):Promise<void>
+		{
+			return Promise.resolve();
+		}
+
+		/**
+		 * Record the compensation.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the <code>MacroCommandTestVO</code>.
+		 */
+		compensate( notification:puremvc.INotification ):Promise<void>
+		{
+			var vo:MacroCommandTestVO = notification.getBody();
+			vo.compensated.push( 2 );
+
+			return Promise.resolve();
+		}
+	}
+}
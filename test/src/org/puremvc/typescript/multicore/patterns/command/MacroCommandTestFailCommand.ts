@@ -0,0 +1,26 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A failing <code>SimpleCommand</code> subclass used by
+	 * <code>MacroCommandTestRollbackCommand</code>.
+	 */
+	export class MacroCommandTestFailCommand
+		extends puremvc.SimpleCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Fail once the other <i>SubCommands</i> have completed.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the <code>MacroCommandTestVO</code>.
+		 */
+		execute( notification:puremvc.INotification ):Promise<void>
+		{
+			return new Promise( ( resolve:() => void, reject:( error:Error ) => void ) => setTimeout( () => reject( Error( 'MacroCommandTestFailCommand' ) ), 20 ) );
+		}
+	}
+}
@@ -0,0 +1,33 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='MacroCommandTestCompensate1Command.ts'/>
+///<reference path='MacroCommandTestCompensate2Command.ts'/>
+///<reference path='MacroCommandTestFailCommand.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A parallel MacroCommand subclass used by MacroCommandTest, whose last SubCommand fails
+	 * after the others completed in reverse list order.
+	 */
+	export class MacroCommandTestRollbackCommand
+		extends puremvc.MacroCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Initialize the MacroCommandTestRollbackCommand by adding
+		 * its 3 SubCommands.
+		 *
+		 * @override
+		 */
+		initializeMacroCommand()
+		{
+			this.setFailurePolicy( "continue" );
+			this.addSubCommand( MacroCommandTestCompensate1Command );
+			this.addSubCommand( MacroCommandTestCompensate2Command );
+			this.addSubCommand( MacroCommandTestFailCommand );
+		}
+	}
+}
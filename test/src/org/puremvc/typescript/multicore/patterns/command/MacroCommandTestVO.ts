@@ -34,5 +34,10 @@ module test
 		 * Will be used to read the result calculated by the command.
 		 */
 		result2:number = null;
+
+		/**
+		 * Will be used to read the order the commands were compensated in.
+		 */
+		compensated:number[] = [];
 	}
 }
\ No newline at end of file
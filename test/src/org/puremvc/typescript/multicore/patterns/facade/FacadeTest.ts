@@ -2,6 +2,8 @@
 ///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
 
 ///<reference path='FacadeTestCommand.ts'/>
+///<reference path='FacadeTestAsyncCommand.ts'/>
+///<reference path='FacadeTestMediator.ts'/>
 ///<reference path='FacadeTestVO.ts'/>
 
 module test
@@ -346,5 +348,414 @@ module test
 				"Expecting Facade.hasCore('FacadeTestKey11') === false"
 			);
 		}
+
+		/**
+		 * Tests the once method
+		 */
+		testOnce():void
+		{
+			// Create the Facade and a one-shot handler, then remove it before any notification
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey12');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey12');
+			var remove:() => void = facade.once( 'FacadeTestNote', () => {} );
+
+			// assert that the handler is registered with the View
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 1"
+			);
+
+			remove();
+
+			// assert that the handler has been removed from the View
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 0"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey12');
+		}
+
+		/**
+		 * Tests the stream method
+		 */
+		testStreamSubscription():void
+		{
+			// Create the Facade and subscribe to a stream of its notifications
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey13');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey13');
+			var subscription:puremvc.IStreamSubscription = facade.stream( 'FacadeTestNote' ).subscribe( () => {} );
+
+			// assert that the subscription is registered with the View
+			YUITest.Assert.areEqual
+			(
+				1,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 1"
+			);
+
+			subscription.unsubscribe();
+
+			// assert that the subscription is closed and removed from the View
+			YUITest.Assert.isTrue
+			(
+				subscription.closed,
+				"Expecting subscription.closed === true"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 0"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey13');
+		}
+
+		/**
+		 * Tests that an error thrown by a stream subscriber ends its subscription, and is passed
+		 * to its error callback instead of the sender.
+		 */
+		async testStreamSubscriberError():Promise<void>
+		{
+			// Create the Facade and subscribe to a stream of its notifications with a failing subscriber
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey19');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey19');
+			var errors:string[] = [];
+			var subscription:puremvc.IStreamSubscription = facade.stream( 'FacadeTestNote' ).subscribe(
+			{
+				next: () => { throw Error( 'subscriber' ); },
+				error: ( error:Error ) => { errors.push( error.message ); }
+			});
+
+			await facade.sendNotification( 'FacadeTestNote' );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'subscriber',
+				errors.join(),
+				"Expecting errors == 'subscriber'"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				subscription.closed,
+				"Expecting subscription.closed === true"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 0"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey19');
+		}
+
+		/**
+		 * Tests that an error thrown by the filter of a stream ends its subscriptions and
+		 * iterations with that error, instead of reaching the sender.
+		 */
+		async testStreamFilterError():Promise<void>
+		{
+			// Create the Facade, a stream with a failing filter, and a subscription and iteration of it
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey21');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey21');
+			var stream:puremvc.INotificationStream = facade.stream( 'FacadeTestNote', { filter: () => { throw Error( 'filter' ); } } );
+			var errors:string[] = [];
+			var subscription:puremvc.IStreamSubscription = stream.subscribe(
+			{
+				next: () => {},
+				error: ( error:Error ) => { errors.push( error.message ); }
+			});
+			var iteration:Promise<IteratorResult<puremvc.INotification>> = stream[Symbol.asyncIterator]().next();
+
+			await facade.sendNotification( 'FacadeTestNote' );
+
+			try
+			{
+				await iteration;
+			}
+			catch ( error )
+			{
+				errors.push( error.message );
+			}
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'filter,filter',
+				errors.join(),
+				"Expecting errors == 'filter,filter'"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				subscription.closed,
+				"Expecting subscription.closed === true"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 0"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey21');
+		}
+
+		/**
+		 * Tests that a request resolves with the result of its Command, and rejects when no
+		 * Command is registered for it.
+		 */
+		async testRequest():Promise<void>
+		{
+			// Create the Facade, register the FacadeTestAsyncCommand to handle 'FacadeTestNote' requests
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey14');
+			facade.registerCommand( 'FacadeTestNote', FacadeTestAsyncCommand );
+
+			var result:number = await facade.request( 'FacadeTestNote', new FacadeTestVO( 32 ) );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				64,
+				result,
+				"Expecting result == 64"
+			);
+
+			var error:Error = await this.requestError( facade, 'FacadeTestNone', new FacadeTestVO( 32 ) );
+
+			YUITest.Assert.areEqual
+			(
+				puremvc.Facade.REQUEST_MSG + ' FacadeTestNone',
+				error && error.message,
+				"Expecting error.message == Facade.REQUEST_MSG + ' FacadeTestNone'"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey14');
+		}
+
+		/**
+		 * Tests that a request rejects when a higher priority observer stops its propagation
+		 * before its Command.
+		 */
+		async testRequestStoppedPropagation():Promise<void>
+		{
+			// Create the Facade, register a guard stopping the 'FacadeTestNote' requests before their Command
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey15');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey15');
+			facade.registerCommand( 'FacadeTestNote', FacadeTestAsyncCommand );
+			view.registerObserver( 'FacadeTestNote', new puremvc.Observer( ( notification:puremvc.INotification ) => notification.stopPropagation(), this ), 1 );
+
+			var vo:FacadeTestVO = new FacadeTestVO( 32 );
+			var error:Error = await this.requestError( facade, 'FacadeTestNote', vo );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				puremvc.Facade.REQUEST_MSG + ' FacadeTestNote',
+				error && error.message,
+				"Expecting error.message == Facade.REQUEST_MSG + ' FacadeTestNote'"
+			);
+
+			YUITest.Assert.isNull
+			(
+				vo.result,
+				"Expecting vo.result === null"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey15');
+		}
+
+		/**
+		 * Tests that a request rejects when the concurrency mode of its Command skips the run.
+		 */
+		async testRequestSkipped():Promise<void>
+		{
+			// Create the Facade, drop the 'FacadeTestNote' requests arriving while one is handled
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey16');
+			facade.registerCommand( 'FacadeTestNote', FacadeTestAsyncCommand );
+			facade.setConcurrency( 'FacadeTestNote', { mode: 'drop' } );
+
+			var vo:FacadeTestVO = new FacadeTestVO( 16 );
+			var request:Promise<number> = facade.request( 'FacadeTestNote', new FacadeTestVO( 32 ) );
+			var error:Error = await this.requestError( facade, 'FacadeTestNote', vo );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				64,
+				await request,
+				"Expecting the first request to resolve with 64"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				puremvc.Facade.REQUEST_MSG + ' FacadeTestNote',
+				error && error.message,
+				"Expecting error.message == Facade.REQUEST_MSG + ' FacadeTestNote'"
+			);
+
+			YUITest.Assert.isNull
+			(
+				vo.result,
+				"Expecting vo.result === null"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey16');
+		}
+
+		/**
+		 * Tests that removing a core cancels the pending calls of the rate limited interests of
+		 * its Mediators, so they do not create the core again.
+		 */
+		async testRemoveCoreDisposesRateLimiters():Promise<void>
+		{
+			// Create the Facade, register the FacadeTestMediator debouncing 'FacadeTestNote' notifications
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey17');
+			facade.registerMediator( new FacadeTestMediator() );
+
+			// The sending is not held up by the debounced call
+			var vo:FacadeTestVO = new FacadeTestVO( 32 );
+			await facade.sendNotification( 'FacadeTestNote', vo );
+
+			// Remove the core before the debounced call runs
+			puremvc.Facade.removeCore('FacadeTestKey17');
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 20 ) );
+
+			// test assertions
+			YUITest.Assert.isNull
+			(
+				vo.result,
+				"Expecting vo.result === null"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				puremvc.Facade.hasCore('FacadeTestKey17'),
+				"Expecting Facade.hasCore('FacadeTestKey17') === false"
+			);
+		}
+
+		/**
+		 * Tests that a request left to the trailing run of a debounced Command rejects right
+		 * away as unhandled, the trailing run still handling it later.
+		 */
+		async testRateLimitedRequest():Promise<void>
+		{
+			// Create the Facade, register the FacadeTestAsyncCommand debouncing 'FacadeTestNote' requests
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey20');
+			facade.registerCommand( 'FacadeTestNote', FacadeTestAsyncCommand, { rateLimit: { debounce: 10 } } );
+
+			var vo:FacadeTestVO = new FacadeTestVO( 32 );
+			var error:Error = await this.requestError( facade, 'FacadeTestNote', vo );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				puremvc.Facade.REQUEST_MSG + ' FacadeTestNote',
+				error && error.message,
+				"Expecting error.message == Facade.REQUEST_MSG + ' FacadeTestNote'"
+			);
+
+			YUITest.Assert.isNull
+			(
+				vo.result,
+				"Expecting vo.result === null"
+			);
+
+			// The trailing run debounces 10 ms, then the FacadeTestAsyncCommand 10 ms more
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 40 ) );
+
+			YUITest.Assert.areEqual
+			(
+				64,
+				vo.result,
+				"Expecting vo.result == 64"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey20');
+		}
+
+		/**
+		 * Tests that waiting for a notification rejects with the error of its predicate, and
+		 * stops observing.
+		 */
+		async testWaitForPredicateError():Promise<void>
+		{
+			// Create the Facade and wait for a 'FacadeTestNote' notification with a failing predicate
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('FacadeTestKey18');
+			var view:puremvc.IView = puremvc.View.getInstance('FacadeTestKey18');
+			var waiting:Promise<puremvc.INotification> = facade.waitFor( 'FacadeTestNote', { predicate: () => { throw Error( 'predicate' ); } } );
+
+			await facade.sendNotification( 'FacadeTestNote' );
+
+			var error:Error = null;
+
+			try
+			{
+				await waiting;
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				'predicate',
+				error && error.message,
+				"Expecting error.message == 'predicate'"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'FacadeTestNote' ).length,
+				"Expecting view.getObservers( 'FacadeTestNote' ).length == 0"
+			);
+
+			puremvc.Facade.removeCore('FacadeTestKey18');
+		}
+
+		/**
+		 * Send a request expected to reject.
+		 *
+		 * @param facade
+		 * 		The Facade sending the request.
+		 *
+		 * @param name
+		 * 		The name of the request.
+		 *
+		 * @param vo
+		 * 		The FacadeTestVO of the request.
+		 *
+		 * @return
+		 * 		The error the request rejected with, <code>null</code> if it resolved.
+		 */
+		async requestError( facade:puremvc.IFacade, name:string, vo:FacadeTestVO ):Promise<Error>
+		{
+			try
+			{
+				await facade.request( name, vo );
+			}
+			catch( e )
+			{
+				return e;
+			}
+
+			return null;
+		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='FacadeTestVO.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * An asynchronous <code>SimpleCommand</code> subclass used by FacadeTest.
+	 */
+	export class FacadeTestAsyncCommand
+		extends puremvc.SimpleCommand
+		implements puremvc.ICommand
+	{
+		/**
+		 * Fabricate a result by multiplying the input by 2, a little later, and resolve with it.
+		 *
+		 * @param notification
+		 * 		The <code>Notification</code> carrying the FacadeTestVO.
+		 */
+		async execute( notification:puremvc.INotification ):Promise<number>
+		{
+			var vo:FacadeTestVO = <FacadeTestVO> notification.getBody();
+
+			await new Promise( ( resolve:() => void ) => setTimeout( resolve, 10 ) );
+
+			// Fabricate a result
+			vo.result = 2 * vo.input;
+
+			return vo.result;
+		}
+	}
+}
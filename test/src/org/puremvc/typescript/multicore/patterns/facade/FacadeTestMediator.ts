@@ -0,0 +1,58 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='FacadeTestVO.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A Mediator class used by FacadeTest, debouncing its 'FacadeTestNote' notifications.
+	 */
+	export class FacadeTestMediator
+		extends puremvc.Mediator
+		implements puremvc.IMediator
+	{
+		/**
+		 * Constructs a <code>Mediator</code> subclass instance.
+		 */
+		constructor()
+		{
+			super( FacadeTestMediator.NAME );
+		}
+
+		/**
+		 * @override
+		 *
+		 * @return
+		 * 		The list of notifications names in which is interested the <code>Mediator</code>.
+		 */
+		listNotificationInterests():puremvc.NotificationInterest[]
+		{
+			return [ { name: 'FacadeTestNote', rateLimit: { debounce: 10 } } ];
+		}
+
+		/**
+		 * @override
+		 *
+		 * Fabricate a result by multiplying the input by 2, through the <code>Facade</code>.
+		 *
+		 * @param notification
+		 * 		The notification instance to be handled.
+		 */
+		handleNotification( notification:puremvc.INotification )
+		{
+			var vo:FacadeTestVO = <FacadeTestVO> notification.getBody();
+
+			if ( this.facade )
+				vo.result = 2 * vo.input;
+		}
+
+		/**
+		 * The Mediator name.
+		 *
+		 * @constant
+		 */
+		public static NAME:string = 'FacadeTestMediator';
+	}
+}
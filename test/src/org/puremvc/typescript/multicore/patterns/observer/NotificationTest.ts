@@ -100,5 +100,91 @@ module test
 				"Expecting notification.testToString() == '" + ts + "'"
 			);
 		}
+
+		/**
+		 * Tests the <code>Notification.is</code> name guard.
+		 */
+		testIs():void
+		{
+			// Create a new Notification and check its name with the guard.
+			var notification:puremvc.INotification = new puremvc.Notification( 'TestNote', 5 );
+
+			// test assertions
+			YUITest.Assert.isTrue
+			(
+				puremvc.Notification.is( notification, 'TestNote' ),
+				"Expecting puremvc.Notification.is( notification, 'TestNote' ) === true"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				puremvc.Notification.is( notification, 'OtherNote' ),
+				"Expecting puremvc.Notification.is( notification, 'OtherNote' ) === false"
+			);
+		}
+
+		/**
+		 * Tests the <code>AbortSignal</code> given to the constructor.
+		 */
+		testGetSignal():void
+		{
+			// Create a new Notification with an AbortSignal and abort it.
+			var controller:AbortController = new AbortController();
+			var notification:puremvc.INotification = new puremvc.Notification( 'TestNote', 5, 'TestNoteType', controller.signal );
+
+			controller.abort();
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				controller.signal,
+				notification.getSignal(),
+				"Expecting notification.getSignal() === controller.signal"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				notification.getSignal().aborted,
+				"Expecting notification.getSignal().aborted === true"
+			);
+
+			YUITest.Assert.isUndefined
+			(
+				new puremvc.Notification( 'TestNote' ).getSignal(),
+				"Expecting new puremvc.Notification( 'TestNote' ).getSignal() === undefined"
+			);
+		}
+
+		/**
+		 * Tests stopping the propagation and preventing the default handling of a
+		 * Notification.
+		 */
+		testPropagationControl():void
+		{
+			// Create a new Notification, stop its propagation and cancel it.
+			var notification:puremvc.INotification = new puremvc.Notification( 'TestNote' );
+
+			// test assertions
+			YUITest.Assert.isFalse
+			(
+				notification.isPropagationStopped() || notification.isDefaultPrevented(),
+				"Expecting a new notification to be neither stopped nor cancelled"
+			);
+
+			notification.stopPropagation();
+			notification.preventDefault();
+
+			YUITest.Assert.isTrue
+			(
+				notification.isPropagationStopped(),
+				"Expecting notification.isPropagationStopped() === true"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				notification.isDefaultPrevented(),
+				"Expecting notification.isDefaultPrevented() === true"
+			);
+		}
 	}
 }
\ No newline at end of file
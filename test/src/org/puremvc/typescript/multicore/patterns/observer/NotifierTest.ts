@@ -62,5 +62,38 @@ module test
 				"Expecting vo.result == 64"
 			);
 		}
+
+		/**
+		 * Tests sending a Notification from a Notifier overriding <code>sendNotification</code>
+		 * without a result.
+		 */
+		async testSendNotificationOverride():Promise<void>
+		{
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('NotifierTestKey3');
+			facade.registerCommand( 'NotifierTestNote', NotifierTestCommand );
+
+			var notifierTestSub:NotifierTestSub = new NotifierTestSub();
+			notifierTestSub.initializeNotifier( 'NotifierTestKey3' );
+
+			var vo:NotifierTestVO = new NotifierTestVO( 32 );
+			await notifierTestSub.sendNotification( 'NotifierTestNote', vo );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				1,
+				notifierTestSub.sent,
+				"Expecting notifierTestSub.sent == 1"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				64,
+				vo.result,
+				"Expecting vo.result == 64"
+			);
+
+			puremvc.Facade.removeCore('NotifierTestKey3');
+		}
 	}
 }
\ No newline at end of file
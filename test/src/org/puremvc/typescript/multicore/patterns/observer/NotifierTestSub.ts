@@ -11,6 +11,21 @@ module test
 		extends puremvc.Notifier
 		implements puremvc.INotifier
 	{
+		/**
+		 * Counts the notifications sent.
+		 */
+		sent:number = 0;
+
+		/**
+		 * Count and send a notification, overriding <code>sendNotification</code> the way
+		 * subclasses did before it resolved with whether the notification was cancelled.
+		 */
+		async sendNotification( name:string, body?:any, type?:string ):Promise<void>
+		{
+			this.sent++;
+			await super.sendNotification( name, body, type );
+		}
+
 		/**
 		 * A method to test if <code>Facade</code> instance of the object has well been declared
 		 * during its construction.
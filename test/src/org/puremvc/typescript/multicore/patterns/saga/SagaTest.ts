@@ -0,0 +1,106 @@
+///<reference path='../../../../../../../../test/lib/YUITest.d.ts'/>
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='SagaTestSaga.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * Test the PureMVC Saga class.
+	 */
+	export class SagaTest
+	{
+		/**
+		 * The name of the test case - if not provided, one is automatically generated by the
+		 * YUITest framework.
+		 */
+
+		name:string = "PureMVC Saga class tests";
+
+		/**
+		 * Tests getting the name using Saga class accessor method.
+		 */
+		testNameAccessor():void
+		{
+			// Create a new Saga and use accessors to get the saga name
+			var saga:puremvc.ISaga = new puremvc.Saga();
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				puremvc.Saga.NAME,
+				saga.getSagaName(),
+				"Expecting saga.getSagaName() == Saga.NAME"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				0,
+				saga.listInstances().length,
+				"Expecting saga.listInstances().length == 0"
+			);
+		}
+
+		/**
+		 * Tests registering, retrieving and removing a Saga with the View.
+		 */
+		testRegisterRetrieveAndRemoveSaga():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('SagaTestKey1');
+			var saga:puremvc.ISaga = new puremvc.Saga('testSaga');
+
+			view.registerSaga( saga );
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				saga,
+				view.retrieveSaga('testSaga'),
+				"Expecting view.retrieveSaga('testSaga') === saga"
+			);
+
+			YUITest.Assert.areSame
+			(
+				saga,
+				view.removeSaga('testSaga'),
+				"Expecting view.removeSaga('testSaga') === saga"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				view.hasSaga('testSaga'),
+				"Expecting view.hasSaga('testSaga') === false"
+			);
+
+			puremvc.View.removeView('SagaTestKey1');
+		}
+
+		/**
+		 * Tests that removing a Saga removes the observers of the interests it was registered
+		 * for, even when its interests changed since.
+		 */
+		testRemoveSagaInterests():void
+		{
+			var view:puremvc.IView = puremvc.View.getInstance('SagaTestKey2');
+			var saga:SagaTestSaga = new SagaTestSaga( SagaTestSaga.NAME );
+
+			view.registerSaga( saga );
+
+			// Change the interests once registered, then remove the Saga
+			saga.interests = [ 'SagaTestNote2' ];
+			view.removeSaga( SagaTestSaga.NAME );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				0,
+				view.getObservers( 'SagaTestNote1' ).length,
+				"Expecting view.getObservers( 'SagaTestNote1' ).length == 0"
+			);
+
+			puremvc.View.removeView('SagaTestKey2');
+		}
+	}
+}
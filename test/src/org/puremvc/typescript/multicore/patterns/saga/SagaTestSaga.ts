@@ -0,0 +1,37 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * A Saga subclass used by SagaTest, whose interests can change once registered.
+	 */
+	export class SagaTestSaga
+		extends puremvc.Saga
+		implements puremvc.ISaga
+	{
+		/**
+		 * The notification names the Saga is interested in.
+		 */
+		interests:string[] = [ 'SagaTestNote1' ];
+
+		/**
+		 * @override
+		 *
+		 * @return
+		 * 		The list of notifications names in which is interested the <code>Saga</code>.
+		 */
+		listNotificationInterests():string[]
+		{
+			return this.interests;
+		}
+
+		/**
+		 * The Saga name.
+		 *
+		 * @constant
+		 */
+		public static NAME:string = 'SagaTestSaga';
+	}
+}
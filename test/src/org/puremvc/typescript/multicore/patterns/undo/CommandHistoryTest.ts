@@ -0,0 +1,232 @@
+///<reference path='../../../../../../../../test/lib/YUITest.d.ts'/>
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+///<reference path='UndoableCommandTestCommand.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * Test the PureMVC CommandHistory class.
+	 */
+	export class CommandHistoryTest
+	{
+		/**
+		 * The name of the test case - if not provided, one is automatically generated by the
+		 * YUITest framework.
+		 */
+		name:string = "PureMVC CommandHistory class tests";
+
+		/**
+		 * Tests the default name and limit of the history.
+		 */
+		testConstructor():void
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				puremvc.CommandHistory.NAME,
+				history.getProxyName(),
+				"Expecting history.getProxyName() == CommandHistory.NAME"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				puremvc.CommandHistory.DEFAULT_LIMIT,
+				history.getLimit(),
+				"Expecting history.getLimit() == CommandHistory.DEFAULT_LIMIT"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				history.canUndo(),
+				"Expecting history.canUndo() === false"
+			);
+		}
+
+		/**
+		 * Tests recording commands, one step each.
+		 */
+		testRecord():void
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+
+			history.record( new UndoableCommandTestCommand() );
+			history.record( new UndoableCommandTestCommand() );
+
+			// test assertions
+			YUITest.Assert.isTrue
+			(
+				history.canUndo(),
+				"Expecting history.canUndo() === true"
+			);
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				history.getState().undoCount,
+				"Expecting history.getState().undoCount == 2"
+			);
+		}
+
+		/**
+		 * Tests grouping several commands into a single step.
+		 */
+		async testGroup():Promise<void>
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+
+			var group:puremvc.ICommandGroup = history.beginGroup();
+			await group.record( new UndoableCommandTestCommand() );
+			await group.record( new UndoableCommandTestCommand() );
+
+			// A command recorded outside of the group meanwhile is a step of its own
+			await history.record( new UndoableCommandTestCommand() );
+
+			// test assertions, the group is still open
+			YUITest.Assert.areEqual
+			(
+				1,
+				history.getState().undoCount,
+				"Expecting history.getState().undoCount == 1"
+			);
+
+			await group.end();
+
+			YUITest.Assert.areEqual
+			(
+				2,
+				history.getState().undoCount,
+				"Expecting history.getState().undoCount == 2"
+			);
+		}
+
+		/**
+		 * Tests the oldest steps are dropped when the limit is reached.
+		 */
+		testLimit():void
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+			history.setLimit( 2 );
+
+			history.record( new UndoableCommandTestCommand() );
+			history.record( new UndoableCommandTestCommand() );
+			history.record( new UndoableCommandTestCommand() );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				2,
+				history.getState().undoCount,
+				"Expecting history.getState().undoCount == 2"
+			);
+		}
+
+		/**
+		 * Tests undoing the most recent step.
+		 */
+		testUndo():void
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+			var command:UndoableCommandTestCommand = new UndoableCommandTestCommand();
+
+			history.record( command );
+			history.undo();
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				1,
+				command.undoCount,
+				"Expecting command.undoCount == 1"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				history.canUndo(),
+				"Expecting history.canUndo() === false"
+			);
+		}
+
+		/**
+		 * Tests a request for an <code>UndoableCommand</code> resolves with the result of
+		 * <code>doExecute</code>, which gets the context of the execution.
+		 */
+		async testExecuteResult():Promise<void>
+		{
+			var facade:puremvc.IFacade = puremvc.Facade.getInstance('CommandHistoryTestKey1');
+			facade.registerCommand( 'CommandHistoryTestNote', UndoableCommandTestCommand );
+
+			var result:any = await facade.request( 'CommandHistoryTestNote', 32 );
+			var history:puremvc.CommandHistory = <puremvc.CommandHistory> facade.retrieveProxy( puremvc.CommandHistory.NAME );
+
+			// test assertions
+			YUITest.Assert.areEqual
+			(
+				32,
+				result,
+				"Expecting result == 32"
+			);
+
+			YUITest.Assert.isNotNull
+			(
+				UndoableCommandTestCommand.context.signal,
+				"Expecting UndoableCommandTestCommand.context.signal !== null"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				history.canUndo(),
+				"Expecting history.canUndo() === true"
+			);
+
+			puremvc.Facade.removeCore('CommandHistoryTestKey1');
+		}
+
+		/**
+		 * Tests a step whose undo fails stays in the undo history.
+		 */
+		async testUndoFailure():Promise<void>
+		{
+			var history:puremvc.CommandHistory = new puremvc.CommandHistory();
+			var command:UndoableCommandTestCommand = new UndoableCommandTestCommand();
+			command.undoError = Error( 'UndoableCommandTestCommand' );
+
+			await history.record( command );
+
+			var error:any = null;
+
+			try
+			{
+				await history.undo();
+			}
+			catch( e )
+			{
+				error = e;
+			}
+
+			// test assertions
+			YUITest.Assert.areSame
+			(
+				command.undoError,
+				error,
+				"Expecting error === command.undoError"
+			);
+
+			YUITest.Assert.isTrue
+			(
+				history.canUndo(),
+				"Expecting history.canUndo() === true"
+			);
+
+			YUITest.Assert.isFalse
+			(
+				history.canRedo(),
+				"Expecting history.canRedo() === false"
+			);
+		}
+	}
+}
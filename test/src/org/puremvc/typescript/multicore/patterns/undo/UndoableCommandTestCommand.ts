@@ -0,0 +1,47 @@
+///<reference path='../../../../../../../../bin/puremvc-typescript-multicore-1.1.d.ts'/>
+
+module test
+{
+	"use strict";
+
+	/**
+	 * An <code>UndoableCommand</code> subclass used by <code>CommandHistoryTest</code>.
+	 */
+	export class UndoableCommandTestCommand
+		extends puremvc.UndoableCommand
+		implements puremvc.IUndoableCommand
+	{
+		/**
+		 * Counts the calls to <code>undo</code>.
+		 */
+		undoCount:number = 0;
+
+		/**
+		 * The error <code>undo</code> fails with, if any.
+		 */
+		undoError:Error = null;
+
+		/**
+		 * The context <code>doExecute</code> was called with.
+		 */
+		static context:puremvc.ICommandContext = null;
+
+		/**
+		 * Record the context and resolve with the body of the notification.
+		 */
+		doExecute( notification:puremvc.INotification, context?:puremvc.ICommandContext ):Promise<any>
+		{
+			UndoableCommandTestCommand.context = context;
+			return Promise.resolve( notification.getBody() );
+		}
+
+		/**
+		 * Count the calls to <code>undo</code>, failing with <code>undoError</code> if set.
+		 */
+		undo():Promise<void>
+		{
+			this.undoCount++;
+			return this.undoError ? Promise.reject( this.undoError ) : Promise.resolve();
+		}
+	}
+}